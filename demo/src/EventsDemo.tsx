@@ -1,5 +1,5 @@
 import React from "react";
-import {getNoteMap, getScoreMouseEvent, ScoreMouseEvent} from "vexflow-mouse-events"
+import {getNoteMap, ScoreEventController, ScoreMouseEvent} from "vexflow-mouse-events"
 import { getMinuet } from "./score";
 
 const EVENT_DEMO_ID = "eventDemo";
@@ -9,6 +9,7 @@ const TOP_OFFSET = 30;
 export default class App extends React.Component<any, {mouseEvent: any}> {
   myRef: any = null;
   systems: any[] = []
+  controller: ScoreEventController | undefined = undefined;
 
   constructor(props: any) {
     super(props);
@@ -17,18 +18,19 @@ export default class App extends React.Component<any, {mouseEvent: any}> {
 
   componentDidMount() {
     this.systems = getMinuet(EVENT_DEMO_ID);
-  }
-
+    this.controller = new ScoreEventController(this.myRef.current, this.systems, {
+      offset: { x: LEFT_OFFSET, y: TOP_OFFSET },
+      noteMap: getNoteMap()
+    });
 
-  onClick(e: any, systems: any[]) {
-    let rect = this.myRef.current.getBoundingClientRect();
-    let mouseX = e.clientX - rect.left - LEFT_OFFSET;
-    let mouseY = e.clientY - rect.top - TOP_OFFSET;
+    this.controller.on("scoreclick", (evt) => {
+      this.setState({mouseEvent: evt});
+      console.log(evt);
+    });
+  }
 
-    let pt = { x: mouseX, y: mouseY };
-    let evt = getScoreMouseEvent(systems, pt, getNoteMap(), true);
-    this.setState({mouseEvent: evt});
-    console.log(evt);
+  componentWillUnmount() {
+    this.controller?.detach();
   }
 
   render() {
@@ -40,7 +42,6 @@ export default class App extends React.Component<any, {mouseEvent: any}> {
           <div id={EVENT_DEMO_ID}
             style={{paddingLeft: `${LEFT_OFFSET}px`, paddingTop: `${TOP_OFFSET}px`}}
             ref={this.myRef}
-            onClick={(e) => this.onClick(e, this.systems)}
           />
         </div>
         {mouseEvent &&
@@ -56,7 +57,10 @@ export default class App extends React.Component<any, {mouseEvent: any}> {
             boxShadow: '3px 5px 3px #888888'
           }}>
             {[
-              ["Accidentals", JSON.stringify(mouseEvent.accidentals)], 
+              ["Accidentals", JSON.stringify({
+                keySig: mouseEvent.accidentals?.keySig,
+                accidentalOverrides: mouseEvent.accidentals?.accidentalOverrides
+              })], 
               ["Centerline Offset", mouseEvent.centerLineOffset],
               ["Closest Staves Index", mouseEvent.closestStaveIdx],
               ["Tickable Before Beat", mouseEvent.closestTickableBefore?.beat],
@@ -27,6 +27,35 @@ function getClosest<T>(iterable: T[], closestFunct: (item: T) => number | undefi
   return closest;
 }
 
+/**
+ * Determines the bounding box of a system measure using its options and the
+ * last y position determined when formatting.
+ * @param system The system measure.
+ * @returns The bounding box or undefined if the system has not been formatted.
+ */
+function getSystemBoundingBox(system: VF.Flow.System): BoundingBox | undefined {
+  let meas = system as any;
+  let x = meas?.options?.x;
+  let y = meas?.options?.y;
+  let w = meas?.options?.width;
+  let h = y !== undefined && meas?.lastY && meas.lastY - y > 0 ?
+    meas.lastY - y : undefined;
+
+  return (x !== undefined && y !== undefined &&
+    w !== undefined && h !== undefined) ?
+    { x, y, w, h } : undefined;
+}
+
+/**
+ * Determines the bounding box of a stave including the space above and below the lines.
+ * @param stave The stave.
+ * @returns The bounding box.
+ */
+function getStaveBoundingBox(stave: VF.Flow.Stave): BoundingBox {
+  let bb = (stave as any).getBoundingBox();
+  return { x: bb.getX(), y: bb.getY(), w: bb.getW(), h: bb.getH() };
+}
+
 /**
  * Identifies the closest system measure using the bounding box of the system measure.
  * @param systems The system measures.
@@ -35,16 +64,9 @@ function getClosest<T>(iterable: T[], closestFunct: (item: T) => number | undefi
  */
 function getClosestSystemMeasure(systems: VF.Flow.System[], pt: { x: number, y: number }) {
   return getClosest(systems,
-    (meas: any) => {
-      let x = meas?.options?.x;
-      let y = meas?.options?.y;
-      let w = meas?.options?.width;
-      let h = y !== undefined && meas?.lastY && meas.lastY - y > 0 ?
-        meas.lastY - y : undefined;
-
-      return (x !== undefined && y !== undefined &&
-        w !== undefined && h !== undefined) ?
-        getDistance(pt, { x, y, w, h }) : undefined;
+    (meas: VF.Flow.System) => {
+      let boundingBox = getSystemBoundingBox(meas);
+      return boundingBox ? getDistance(pt, boundingBox) : undefined;
     });
 }
 
@@ -80,8 +102,91 @@ function getStaveCenterY(stave: VF.Flow.Stave) {
   return stave.getYForLine(((stave.options.num_lines || 5) - 1) / 2);
 }
 
+/**
+ * The number of ledger lines above and below a stave within which a point is assigned to the stave.
+ */
+const DEFAULT_LEDGER_LINES = 3;
+
+/**
+ * The number of ledger lines a stave reaches above and below its lines.  A map by stave 
+ * index configures staves individually (i.e. { 0: 4, 1: 1 } to assign the gap of a grand 
+ * staff to the treble stave).  Staves missing from the map use DEFAULT_LEDGER_LINES.
+ */
+export type LedgerLines = number | { [staveIdx: number]: number };
+
+/**
+ * The vertical extent of the lines of a stave.
+ */
+type StaveBounds = {
+  idx: number,
+  stave: VF.Flow.Stave,
+
+  /**
+   * The y position of the top line.
+   */
+  top: number,
+
+  /**
+   * The y position of the bottom line.  The same as the top for a single line stave.
+   */
+  bottom: number,
+
+  /**
+   * The space between lines.
+   */
+  spacing: number
+};
+
+/**
+ * Determines the vertical extent of the lines of a stave.
+ * @param stave The stave.
+ * @param idx The index of the stave in the system measure.
+ * @returns The bounds of the stave lines.
+ */
+function getStaveBounds(stave: VF.Flow.Stave, idx: number): StaveBounds {
+  return {
+    idx,
+    stave,
+    top: stave.getYForLine(0),
+    bottom: stave.getYForLine((stave.options.num_lines || 5) - 1),
+    spacing: stave.getSpacingBetweenLines() || 1
+  };
+}
+
+/**
+ * Assigns a point to a stave using the bounds of the stave lines.  Staves whose ledger line 
+ * reach contains the point take precedence by distance in lines so that staves with different 
+ * line spacing or numbers of lines are treated alike.  Otherwise, the stave with the closest 
+ * bounds is chosen.  Staves at the same distance are resolved in favor of the lowest index.
+ * @param staves The bounds of the staves in order of index.
+ * @param pt The point.
+ * @param ledgerLines The ledger line reach of the staves.
+ * @returns The index of the stave as well as the stave.
+ */
+function getClosestStaveByBounds(
+  staves: StaveBounds[],
+  pt: Point,
+  ledgerLines: LedgerLines = DEFAULT_LEDGER_LINES): { idx: number, item: VF.Flow.Stave } | undefined {
+
+  let getReach = (idx: number) => typeof ledgerLines === "number" ? ledgerLines :
+    (ledgerLines[idx] !== undefined ? ledgerLines[idx] : DEFAULT_LEDGER_LINES);
+
+  let withinReach = getClosest(staves, (bounds) => {
+    let lines = getAbsOutsideRange(pt.y, bounds.top, bounds.bottom) / bounds.spacing;
+    return lines <= getReach(bounds.idx) ? lines : undefined;
+  });
+
+  let closest = withinReach || getClosest(staves, (bounds) => getAbsOutsideRange(pt.y, bounds.top, bounds.bottom));
+  return closest ? { idx: closest.item.idx, item: closest.item.stave } : undefined;
+}
+
 export type Point = { x: number, y: number };
 
+/**
+ * A bounding box with the x, y of the upper left corner as well as the width and height.
+ */
+export type BoundingBox = { x: number, y: number, w: number, h: number };
+
 /**
  * Returns the offset from the center line of the staves in terms of
  * pitches.  For instance, if selecting E4 on treble, will be ~3.
@@ -94,13 +199,26 @@ function getCenterLineOffset(stave: VF.Flow.Stave, pt: Point) {
   return Math.round((centerY - pt.y) / (spacing / 2));
 }
 
+/**
+ * Returns the y coordinate of an offset from the center line of the stave.
+ * This is the inverse of getCenterLineOffset.
+ * @param stave The stave.
+ * @param centerLineOffset The offset from the center line in terms of pitches.
+ * @returns The y coordinate.
+ */
+function getCenterLineY(stave: VF.Flow.Stave, centerLineOffset: number) {
+  let centerY = getStaveCenterY(stave);
+  let spacing = stave.options.spacing_between_lines_px || 0;
+  return centerY - centerLineOffset * (spacing / 2);
+}
+
 /**
  * Gets the distance of a point to a bounding box returning 0 if within.
  * @param point The point.
  * @param boundingBox The bounding box.
  * @returns The distance of the point to the bounding box.
  */
-function getDistance(point: Point, boundingBox: { x: number, y: number, w: number, h: number }): number {
+function getDistance(point: Point, boundingBox: BoundingBox): number {
   let { x, y } = point;
   let { x: xbb, y: ybb, w, h } = boundingBox;
   let xDiff = getAbsOutsideRange(x, xbb, xbb + w);
@@ -108,27 +226,201 @@ function getDistance(point: Point, boundingBox: { x: number, y: number, w: numbe
   return Math.sqrt(Math.pow(xDiff, 2) + Math.pow(yDiff, 2));
 }
 
+/**
+ * Returns the bounding box of a tickable.  Vexflow provides no bounding box for a TabNote,
+ * so one is determined from the width of the note and the lines of its positions.
+ * @param tickable The tickable.
+ * @returns The bounding box or undefined if the tickable has none (i.e. a ClefNote).
+ */
+function getTickableBoundingBox(tickable: VF.Flow.Tickable): BoundingBox | undefined {
+  let bb = tickable.getBoundingBox();
+  if (bb) {
+    return { x: bb.getX(), y: bb.getY(), w: bb.getW(), h: bb.getH() };
+  }
+
+  let note = tickable as any;
+  if (tickable instanceof VF.Flow.TabNote && note.getStave() && note.getTickContext()) {
+    let ys: number[] = note.getYs();
+    let spacing = note.getStave().options.spacing_between_lines_px || 0;
+    let y = Math.min(...ys) - spacing / 2;
+    return { x: note.getAbsoluteX(), y, w: note.getWidth(), h: Math.max(...ys) + spacing / 2 - y };
+  }
+
+  return undefined;
+}
+
 /**
  * A tickable and beats from beginning of that measure to that tickable
  * (i.e. if quarter, eighth, eighth: the second eighth at 3/8)
  */
-type TickableAndBeat = { tickable: VF.Flow.Tickable, beat: VF.Flow.Fraction };
+type TickableAndBeat = {
+  tickable: VF.Flow.Tickable,
+
+  /**
+   * The beat in whole notes from the beginning of the measure.  Notes in tuplets count for their 
+   * played duration (i.e. 1/12 for each eighth of a triplet), so voices with and without tuplets 
+   * share the same beats.
+   */
+  beat: VF.Flow.Fraction,
+
+  /**
+   * The clef set by a ClefNote at or before this tickable in the voice, if any.
+   */
+  clef?: string,
+
+  /**
+   * The key signature set by a KeySigNote at or before this tickable in the voice, if any.
+   */
+  keySignature?: VF.Flow.KeySignature,
+
+  /**
+   * The beam the tickable belongs to, if any.
+   */
+  beam?: BeamContext,
+
+  /**
+   * The innermost tuplet enclosing the tickable, if any.
+   */
+  tuplet?: TupletContext
+};
+
+/**
+ * A beam and the position of a note within it.
+ */
+export type BeamContext = {
+  /**
+   * The beam.
+   */
+  beam: VF.Flow.Beam,
+
+  /**
+   * The notes of the beam in order.
+   */
+  notes: VF.Flow.StemmableNote[],
+
+  /**
+   * The index of the note within the beam.
+   */
+  index: number
+};
+
+/**
+ * A tuplet and the position of a note within it.
+ */
+export type TupletContext = {
+  /**
+   * The tuplet.
+   */
+  tuplet: VF.Flow.Tuplet,
+
+  /**
+   * The number of notes in the tuplet ratio (i.e. 3 for a triplet).
+   */
+  numNotes: number,
+
+  /**
+   * The number of notes occupied in the tuplet ratio (i.e. 2 for a triplet).
+   */
+  notesOccupied: number,
+
+  /**
+   * The notes of the tuplet in order.
+   */
+  notes: VF.Flow.Note[],
+
+  /**
+   * The index of the note within the tuplet.
+   */
+  index: number
+};
+
+/**
+ * Returns the beam of a tickable and its position within the beam.
+ * @param tickable The tickable.
+ * @returns The beam context or undefined if the tickable is not beamed.
+ */
+function getBeamContext(tickable: VF.Flow.Tickable): BeamContext | undefined {
+  let beam = (tickable as any).beam as VF.Flow.Beam | null | undefined;
+  if (!beam) {
+    return undefined;
+  }
+
+  let notes = beam.getNotes();
+  return { beam, notes, index: notes.indexOf(tickable as VF.Flow.StemmableNote) };
+}
+
+/**
+ * Returns the innermost tuplet of a tickable and its position within the tuplet.
+ * @param tickable The tickable.
+ * @returns The tuplet context or undefined if the tickable is not in a tuplet.
+ */
+function getTupletContext(tickable: VF.Flow.Tickable): TupletContext | undefined {
+  let tuplet = (tickable as any).tuplet as VF.Flow.Tuplet | null | undefined;
+  if (!tuplet) {
+    return undefined;
+  }
+
+  let notes: VF.Flow.Note[] = tuplet.getNotes();
+  return {
+    tuplet,
+    numNotes: tuplet.getNoteCount(),
+    notesOccupied: (tuplet as any).getNotesOccupied(),
+    notes,
+    index: notes.indexOf(tickable as VF.Flow.Note)
+  };
+}
+
+/**
+ * Returns the clef type if the tickable is a mid-measure ClefNote.
+ * @param tickable The tickable.
+ * @returns The clef type (i.e. 'bass') or undefined if not a ClefNote.
+ */
+function getClefNoteClef(tickable: VF.Flow.Tickable): string | undefined {
+  return tickable instanceof VF.Flow.ClefNote ?
+    (tickable as any).type :
+    undefined;
+}
 
+/**
+ * Returns the key signature if the tickable is a mid-measure KeySigNote.
+ * @param tickable The tickable.
+ * @returns The key signature or undefined if not a KeySigNote.
+ */
+function getKeySigNoteKeySignature(tickable: VF.Flow.Tickable): VF.Flow.KeySignature | undefined {
+  return tickable instanceof VF.Flow.KeySigNote ?
+    (tickable as any).keySignature :
+    undefined;
+}
 
 /**
  * Transforms the tickables in a voice into a list of tickables mapped to their beat.
+ * The clef and key signature set by ClefNote and KeySigNote tickables are tracked along the way 
+ * and the beam and tuplet of each tickable are noted.
  * @param voice The voice to iterate through.
  * @returns The list of tickables with their beats.
  */
 function getTickablesAndBeats(voice: VF.Flow.Voice): TickableAndBeat[] {
 
-  let resolution = voice.getActualResolution();
+  // the actual resolution of a voice is multiplied for each tuplet it contains, so dividing by it 
+  // would shrink every beat in the voice (i.e. 1/12 instead of 1/4 for the second quarter).  The 
+  // base resolution keeps beats in terms of whole notes.
+  let resolution = VF.Flow.RESOLUTION;
   let totalTicks = new VF.Flow.Fraction(0, 1);
+  let clef: string | undefined = undefined;
+  let keySignature: VF.Flow.KeySignature | undefined = undefined;
 
   // iterate through tickables ordered chronologically
-  let items = [];
+  let items: TickableAndBeat[] = [];
   for (let t of voice.getTickables()) {
-    items.push({ tickable: t, beat: totalTicks });
+    clef = getClefNoteClef(t) || clef;
+    keySignature = getKeySigNoteKeySignature(t) || keySignature;
+    items.push({ tickable: t, beat: totalTicks, clef, keySignature, beam: getBeamContext(t), tuplet: getTupletContext(t) });
+
+    // tickables such as ClefNote and BarNote take no time in the measure
+    if (t.shouldIgnoreTicks()) {
+      continue;
+    }
+
     let thisTicks = t.getTicks();
 
     // track the current beats 
@@ -146,24 +438,23 @@ function getTickablesAndBeats(voice: VF.Flow.Voice): TickableAndBeat[] {
 /**
  * Returns the tickable before and after for the tickables in a voice.  
  * If no tickable exists before and/or after, an item is not returned.
- * @param voice The point.
+ * @param tickablesAndBeats The tickables of the voice mapped to their beats.
  * @param ptX The x coordinate of the point.
  * @returns A list of the closest (at most 2: one before and after) tickables to the point.
  */
-function getClosestTickable(voice: VF.Flow.Voice, ptX: number): TickableAndBeat[] {
+function getClosestTickable(tickablesAndBeats: TickableAndBeat[], ptX: number): TickableAndBeat[] {
   let itemBefore = undefined;
   let itemAfter = undefined;
 
   // iterate through tickables ordered chronologically
-  for (let tickAndBeat of getTickablesAndBeats(voice)) {
+  for (let tickAndBeat of tickablesAndBeats) {
     let { tickable } = tickAndBeat;
-    let tickableBB = tickable.getBoundingBox();
+    let tickableBB = getTickableBoundingBox(tickable);
     if (!tickableBB) {
       continue;
     }
 
-    let x = tickableBB.getX();
-    let w = tickableBB.getW();
+    let { x, w } = tickableBB;
 
     // if the x position of this tickable has exceeded the x position,
     // it is after the point.  So, break out of the loop.
@@ -187,613 +478,5348 @@ function getClosestTickable(voice: VF.Flow.Voice, ptX: number): TickableAndBeat[
 }
 
 
+/**
+ * The closest tickables of a single voice on a stave.
+ */
+export type VoiceResult = {
+  /**
+   * The index of the voice within the stave.
+   */
+  voiceIdx: number,
+
+  /**
+   * The voice.
+   */
+  voice: VF.Flow.Voice,
+
+  /**
+   * The closest tickable in the voice.
+   */
+  closestTickable: TickableAndBeat | undefined,
+
+  /**
+   * The closest tickable in the voice whose x position is before the point.
+   */
+  closestTickableBefore: TickableAndBeat | undefined
+};
+
+/**
+ * The policy for choosing the primary voice of a stave.
+ * - closest: the voice with the closest tickable to the point.
+ * - stemUp / stemDown: the closest voice whose closest tickable has the stem direction, 
+ *   falling back to the closest voice.
+ * - pitch: the voice whose closest notehead is vertically closest to the point.
+ * - notesOnly: the closest voice excluding voices without notes (i.e. a TextDynamics voice).
+ */
+export type VoicePolicy = "closest" | "stemUp" | "stemDown" | "pitch" | "notesOnly";
+
+/**
+ * Returns whether a voice contains notes as opposed to only text, dynamics or ghost notes.
+ * @param voice The voice.
+ * @returns True if the voice has a StaveNote or TabNote.
+ */
+function isNoteVoice(voice: VF.Flow.Voice): boolean {
+  return voice.getTickables().some(t => t instanceof VF.Flow.StaveNote || t instanceof VF.Flow.TabNote);
+}
+
+/**
+ * Returns the vertical distance of a point to a tickable using the closest notehead if any.
+ * @param tickable The tickable.
+ * @param pt The point.
+ * @returns The vertical distance or undefined if the tickable has no bounding box.
+ */
+function getPitchDistance(tickable: VF.Flow.Tickable, pt: Point): number | undefined {
+  let bb = getClosestNoteHead(tickable, pt)?.boundingBox || getTickableBoundingBox(tickable);
+  return bb && Math.abs(pt.y - (bb.y + bb.h / 2));
+}
+
+/**
+ * Chooses the primary voice from the results of each voice.
+ * @param voiceResults The results of each voice.
+ * @param pt The point.
+ * @param policy The policy for choosing the voice.
+ * @returns The primary voice or undefined if no voice has a tickable.
+ */
+function getPrimaryVoice(voiceResults: VoiceResult[], pt: Point, policy: VoicePolicy): VoiceResult | undefined {
+  let candidates = voiceResults.filter(r => r.closestTickable &&
+    (policy !== "notesOnly" || isNoteVoice(r.voice)));
+
+  if (policy === "pitch") {
+    return getClosest(candidates, r => getPitchDistance((r.closestTickable as TickableAndBeat).tickable, pt))?.item;
+  } else if (policy === "stemUp" || policy === "stemDown") {
+    let direction = policy === "stemUp" ? VF.Flow.Stem.UP : VF.Flow.Stem.DOWN;
+    let matching = candidates.filter(r => {
+      let tickable = (r.closestTickable as TickableAndBeat).tickable as any;
+      return tickable.getStemDirection && tickable.getStemDirection() === direction;
+    });
+
+    candidates = matching.length ? matching : candidates;
+  }
+
+  return getClosest(candidates,
+    r => getDistance(pt, getTickableBoundingBox((r.closestTickable as TickableAndBeat).tickable) as BoundingBox))?.item;
+}
+
 /**
  * Get metrics on the closest tickable and beat of a point to a list of voices.
+ * @param lookup The lookup used to find the closest tickables in each voice.
  * @param voices The list of voices.
  * @param pt The point to check proximity.
+ * @param policy The policy for choosing the primary voice.  With the default closest policy, 
+ * the closest tickables are merged across voices.  Otherwise they are taken from the primary voice.
  * @returns 
  *    closestBefore: The closest tickable whose starting x position is before the x point of the point.
  *    closest: The closest tickable (not necessarily before) determined by distance of point to bounding box of tickable.
+ *    voiceResults: The closest tickables of each voice.
+ *    primaryVoiceIdx: The index of the primary voice.
  */
-function getClosestTickableResult(voices: VF.Flow.Voice[], pt: Point): {
+function getClosestTickableResult(lookup: ScoreLookup, voices: VF.Flow.Voice[], pt: Point, policy: VoicePolicy = "closest"): {
   closestTickableBefore: TickableAndBeat | undefined,
-  closestTickable: TickableAndBeat | undefined
+  closestTickable: TickableAndBeat | undefined,
+  voiceResults: VoiceResult[],
+  primaryVoiceIdx: number | undefined
 } {
 
-  let closestTickableList = voices.map((v: any) => getClosestTickable(v, pt.x));
+  let closestTickableList = voices.map((v) => lookup.getClosestTickables(v, pt.x));
+
+  // the first item is only before the point if the voice had a tickable starting at or before the point
+  let getBefore = (list: TickableAndBeat[]) =>
+    (!list || list.length < 1 || (getTickableBoundingBox(list[0].tickable) as BoundingBox).x > pt.x) ?
+      undefined :
+      list[0];
+
+  let voiceResults: VoiceResult[] = voices.map((voice, voiceIdx) => ({
+    voiceIdx,
+    voice,
+    closestTickable: getClosest(closestTickableList[voiceIdx],
+      (item) => getDistance(pt, getTickableBoundingBox(item.tickable) as BoundingBox))?.item,
+    closestTickableBefore: getBefore(closestTickableList[voiceIdx])
+  }));
+
+  let primaryVoice = getPrimaryVoice(voiceResults, pt, policy);
+  if (policy !== "closest") {
+    return {
+      closestTickable: primaryVoice?.closestTickable,
+      closestTickableBefore: primaryVoice?.closestTickableBefore,
+      voiceResults,
+      primaryVoiceIdx: primaryVoice?.voiceIdx
+    };
+  }
 
   let closestTickableBefore = closestTickableList.reduce((prevBest, curList) => {
-    if (!curList || curList.length < 1)
+    let before = getBefore(curList);
+    if (!before)
       return prevBest;
 
-    return getClosest([prevBest, curList[0] as any].filter(i => i !== undefined),
-      (item) => getDistance(pt, item.tickable.getBoundingBox() as any))?.item;
+    return getClosest([prevBest, before as any].filter(i => i !== undefined),
+      (item) => getDistance(pt, getTickableBoundingBox(item.tickable) as BoundingBox))?.item;
   }, undefined as any)
 
   let closestTickable = closestTickableList.flatMap((lst) => lst).reduce((prevBest, cur) => {
     return getClosest([prevBest, cur as any].filter(i => i !== undefined),
-      (item) => getDistance(pt, item.tickable.getBoundingBox() as any))?.item;
+      (item) => getDistance(pt, getTickableBoundingBox(item.tickable) as BoundingBox))?.item;
   }, undefined as any)
 
   return {
     closestTickable,
-    closestTickableBefore
+    closestTickableBefore,
+    voiceResults,
+    primaryVoiceIdx: primaryVoice?.voiceIdx
   }
 }
 
 /**
- * Converts the accidental to its semitones offset from natural.
- * @param accidental The accidental.  Undefined will be treated as a 0.
- * @returns The semitone difference from a natural note (i.e. double sharp is 2, flat is -1)
+ * The notehead of a chord member within a tickable.
  */
-function getAccidentalOffset(accidental: Accidental | undefined): number {
-  if (!accidental) {
-    return 0;
-  }
-
-  switch (accidental.toLocaleLowerCase()) {
-    case "bb": return -2;
-    case "b": return -1;
-    case "#": return 1;
-    case "##": return 2;
-    case "n": return 0;
-    default: return 0;
-  }
-}
+export type NoteHeadResult = {
+  /**
+   * The index of the key within the tickable.
+   */
+  keyIndex: number,
 
+  /**
+   * The key string (i.e. b/3).
+   */
+  key: string,
 
-/**
- * Represents information about a note (i.e. Bb).
- */
-export type NoteEntry = {
   /**
-   * Semitones from C (i.e. Eb would be 3).
+   * The bounding box of the notehead.
    */
-  semitoneVal: number,
+  boundingBox: BoundingBox,
+
   /**
-   * The note (i.e. Eb).
+   * Whether the notehead is displaced to the other side of the stem (i.e. in a cluster of seconds).
    */
-  noteName: Note,
+  displaced: boolean,
+
   /**
-   * Note letter difference from C (i.e. E is 2).
+   * The shape of the notehead (i.e. "x" for a cymbal).
    */
-  noteLetterIdx: number
+  type: NoteHeadType
 }
 
 /**
- * A mapping of the note letter idx (index above C, so E would be 2).
+ * The shapes of noteheads.
  */
-export type NoteMapping = {
-  [noteLetterIdx: number]: {
-    /**
-     * maps the accidental offset (i.e. sharp is 1, double flat is -2) to the NoteEntry.
-     */
-    [accidentalOffset: number]: NoteEntry,
-    /**
-     * The note letter for this entry.
-     */
-    noteLetter: NoteLetter
-  }
-};
+export type NoteHeadType = "normal" | "x" | "circle-x" | "diamond" | "triangle" | "square";
 
 /**
- * Creates a NoteMapping using VF.Flow.keyProperties to perform
- * lookups of note meta data.
+ * Determines the shape of a notehead from its glyph code.
+ * @param glyphCode The glyph code of the notehead (i.e. noteheadXBlack).
+ * @returns The notehead shape.
  */
-export function getNoteMap(): NoteMapping {
-  let mapping: NoteMapping = {};
-  for (let [noteName, val] of Object.entries((VF.Flow.keyProperties as any).note_values)) {
-    let { index: noteLetterIdx, int_val: semitoneVal, accidental, rest, code } = val as any;
-    if (rest || code)
-      continue;
+function getNoteHeadType(glyphCode: string | undefined): NoteHeadType {
+  let code = glyphCode || "";
+  if (code.indexOf("CircleX") >= 0) {
+    return "circle-x";
+  } else if (code.indexOf("noteheadX") >= 0) {
+    return "x";
+  } else if (code.indexOf("Diamond") >= 0) {
+    return "diamond";
+  } else if (code.indexOf("Triangle") >= 0) {
+    return "triangle";
+  } else if (code.indexOf("Square") >= 0 || code.indexOf("Rect") >= 0) {
+    return "square";
+  }
 
-    let items = mapping[noteLetterIdx];
-    if (!items) {
-      items = {
-        noteLetter: noteName[0] as NoteLetter
-      };
-      mapping[noteLetterIdx] = items;
-    }
+  return "normal";
+}
 
-    let accidentalOffset = getAccidentalOffset(accidental);
+/**
+ * Determines the noteheads of a stave note using the per key y positions of the note.
+ * @param staveNote The stave note.
+ * @returns The noteheads of the note in the order of the keys.
+ */
+function getNoteHeads(staveNote: VF.Flow.StaveNote): NoteHeadResult[] {
+  let note = staveNote as any;
+  let keys = staveNote.getKeys();
+  let ys = staveNote.getYs();
+  let noteHeads: any[] = note.note_heads || [];
+  let spacing = note.getStave()?.getSpacingBetweenLines() || 0;
+  let beginX = staveNote.getNoteHeadBeginX();
 
-    let noteLetter = noteName[0] as NoteLetter;
+  return noteHeads
+    .map((noteHead, keyIndex) => {
+      if (!noteHead || ys[keyIndex] === undefined) {
+        return undefined;
+      }
 
-    items[accidentalOffset] = {
-      semitoneVal,
-      noteName: {
-        accidental: accidental || 'n',
-        noteLetter
-      },
-      noteLetterIdx
-    }
-  }
-  return mapping;
+      // noteheads are not formatted themselves, so their absolute x is their own x
+      // plus displacement.  Rebase that onto the start of the note's noteheads.
+      let x = noteHead.getAbsoluteX() - noteHead.x + beginX;
+      return {
+        keyIndex,
+        key: keys[keyIndex],
+        boundingBox: { x, y: ys[keyIndex] - spacing / 2, w: noteHead.getWidth(), h: spacing },
+        displaced: noteHead.isDisplaced(),
+        type: getNoteHeadType(noteHead.glyph_code)
+      };
+    })
+    .filter(item => item !== undefined) as NoteHeadResult[];
 }
 
 /**
- * A NoteMapping derived from vexflow key properties.
+ * Identifies the notehead in a tickable closest to the point.
+ * @param tickable The tickable.
+ * @param pt The point.
+ * @returns The closest notehead or undefined if the tickable is not a note with noteheads.
  */
-export const NOTE_MAPPING = getNoteMap();
-
+function getClosestNoteHead(tickable: VF.Flow.Tickable, pt: Point): NoteHeadResult | undefined {
+  let note = tickable as any;
+  if (note.getCategory() !== VF.Flow.StaveNote.CATEGORY || note.isRest()) {
+    return undefined;
+  }
+
+  return getClosest(getNoteHeads(note as VF.Flow.StaveNote), (noteHead) => getDistance(pt, noteHead.boundingBox))?.item;
+}
+
 /**
- * The note and the octave for that note.
+ * A mark attached to a tickable such as an articulation or fingering.
  */
-export type NoteAndOctave = { note: NoteEntry, octave: number };
+export type ModifierResult = {
+  /**
+   * The modifier or, for marks that are tickables themselves such as TextDynamics, the tickable.
+   */
+  modifier: VF.Flow.Modifier | VF.Flow.Tickable,
+
+  /**
+   * The category of the modifier (i.e. articulations, annotations or textdynamics).
+   */
+  category: string,
+
+  /**
+   * The tickable the modifier is attached to.
+   */
+  tickable: TickableAndBeat,
+
+  /**
+   * The index of the stave of the tickable.
+   */
+  staveIdx: number,
+
+  /**
+   * The index of the key the modifier is attached to if any.
+   */
+  keyIndex: number | undefined,
+
+  /**
+   * The bounding box of the modifier.
+   */
+  boundingBox: BoundingBox
+};
 
 /**
- * Record for determining the accidentals at any given point 
- * in the measure.
+ * Determines the bounding box of a glyph rendered at a point.  The outline bounds of a glyph are 
+ * relative to the point it is rendered at and offset by the origin it was last rendered with.
+ * @param glyph The glyph.
+ * @param x The x coordinate the glyph is rendered at.
+ * @param y The y coordinate the glyph is rendered at.
+ * @returns The bounding box.
  */
-type EffectiveAccidentals = {
-  // Tracks the accidentals determined by the key signature.
-  keySig: KeySigAccidentals;
-  // accidentals in the measure that remain throughout the rest of the measure.
-  accidentalOverrides: AccidentalOverrides;
+function getGlyphBoundingBox(glyph: VF.Flow.Glyph, x: number, y: number): BoundingBox {
+  let { bbox, originShift } = glyph as any;
+  return { x: x + originShift.x + bbox.getX(), y: y + originShift.y + bbox.getY(), w: bbox.getW(), h: bbox.getH() };
+}
+
+/**
+ * Determines the bounding box of text drawn from its baseline.  Vexflow formats text with the width 
+ * from Flow.textWidth and estimates the height of text with the width of an 'm', so the same is done here.
+ * @param text The text.
+ * @param x The x coordinate the text is drawn at.
+ * @param y The y coordinate of the baseline.
+ * @returns The bounding box.
+ */
+function getTextBoundingBox(text: string, x: number, y: number): BoundingBox {
+  let h = VF.Flow.textWidth("m");
+  return { x, y: y - h, w: VF.Flow.textWidth(text), h };
 }
 
+/**
+ * Determines the bounding box containing other bounding boxes.
+ * @param boxes The bounding boxes.
+ * @returns The bounding box or undefined if there are no bounding boxes.
+ */
+function getBoundingBoxUnion(boxes: BoundingBox[]): BoundingBox | undefined {
+  return boxes.length > 0 ?
+    getPolygonBoundingBox(boxes.flatMap(bb => [{ x: bb.x, y: bb.y }, { x: bb.x + bb.w, y: bb.y + bb.h }])) :
+    undefined;
+}
 
 /**
- * Determines the note and octave based on the center line index on the stave.
- * 
- * For instance, if a click happens on the space above center line on a treble
- * clef, then C5 should be returned.
- * 
- * @param noteMap A mapping of note letters to metadata about that note.
- * @param clef The clef (i.e. 'treble', 'bass', etc. as defined by VF.Flow.clefProperties.values)
- * @param centerLineOffset The index above or below the center line of the stave.
- * @param octaveShift If the clef has an octave shift, this is the octave shift.
- * @param effectiveAccidentals Accidentals based on the key signature and notes with accidentals 
- * in the measure.  If left undefined, the note returned will have no accidental.
- * @returns The note and octave corresponding to the click.
+ * Determines the y coordinate an articulation glyph is rendered at.  Ported from Articulation.draw, 
+ * which places the articulation outside the stem or notehead and then snaps it to the staff.
+ * @param articulation The articulation.
+ * @param note The note the articulation is attached to.
+ * @returns The y coordinate.
  */
-function getNoteAndOctave(
-  noteMap: NoteMapping,
-  clef: string,
-  centerLineOffset: number,
-  octaveShift: number = 0,
-  effectiveAccidentals: EffectiveAccidentals | undefined):
-  NoteAndOctave | undefined {
+function getArticulationY(articulation: any, note: any): number {
+  let { position, index, text_line: textLine, glyph } = articulation;
+  let canSitBetweenLines = articulation.articulation.between_lines;
+  let isAbove = position === VF.Flow.Modifier.Position.ABOVE;
+  let isTab = note instanceof VF.Flow.TabNote;
+  let stave = note.getStave();
+  let staffSpace = stave.getSpacingBetweenLines();
+  let { topY: stemTipY, baseY: stemBaseY } = note.getStemExtents();
+  let isOnStemTip = note.getStemDirection() === (isAbove ? VF.Flow.StaveNote.STEM_UP : VF.Flow.StaveNote.STEM_DOWN);
+  let hasStem = note.hasStem();
+  let offset = isTab ? (hasStem && isOnStemTip ? 1 : 0) : (hasStem && isOnStemTip ? 0.5 : 1);
 
-  let clefLineShift = VF.Flow.clefProperties(clef).line_shift;
-  let lineShiftOffset = centerLineOffset - clefLineShift * 2 - 1;
-  let octave = 5 - octaveShift;
-  while (lineShiftOffset < 0) {
-    lineShiftOffset += 7;
-    octave -= 1;
+  // the edge of the note the articulation is placed from: the stem tip, the stem base (the notehead) 
+  // or, for tab notes, the text line of the stave
+  let noteY: number;
+  if (hasStem && (isOnStemTip || !isTab)) {
+    noteY = isOnStemTip ? stemTipY : stemBaseY;
+  } else if (isTab) {
+    noteY = isAbove ? stave.getYForTopText(textLine) : stave.getYForBottomText(textLine);
+  } else {
+    noteY = isAbove ? Math.min(...note.getYs()) : Math.max(...note.getYs());
   }
 
-  while (lineShiftOffset >= 7) {
-    lineShiftOffset -= 7;
-    octave += 1;
+  let direction = isAbove ? -1 : 1;
+  let y = noteY + (textLine + offset) * staffSpace * direction;
+  if (!canSitBetweenLines || isTab) {
+    let outsideOffset = (VF.Flow.Articulation as any).INITIAL_OFFSET;
+    y = isAbove ?
+      Math.min(stave.getYForTopText(outsideOffset), y) :
+      Math.max(stave.getYForBottomText(outsideOffset), y);
   }
 
+  if (isTab) {
+    return y;
+  }
 
-  let noteLetterMap = noteMap[lineShiftOffset]
-  if (!noteLetterMap)
-    return undefined;
+  // snap to the nearest half line away from the note, sitting between the lines within the staff if allowed
+  let isWithinLines = (line: number) => isAbove ? line <= 5 : line >= 1;
+  let articLine = (note.getYs()[index] - y) / staffSpace + note.getKeyProps()[index].line;
+  let round = isWithinLines(articLine) ? (isAbove ? Math.ceil : Math.floor) : Math.round;
+  let snappedLine = round(articLine / 0.5) * 0.5;
+  if (canSitBetweenLines && isWithinLines(snappedLine) && snappedLine % 1 === 0) {
+    snappedLine -= 0.5 * direction;
+  }
 
-  let noteLetter = noteLetterMap.noteLetter;
-  let accidentalOffset = 0;
-  if (effectiveAccidentals) {
-    let accidental = effectiveAccidentals.accidentalOverrides[noteLetter + octave];
-    if (!accidental) {
-      accidental = effectiveAccidentals.keySig[noteLetter];
-    }
+  let padding = articulation.musicFont.lookupMetric(`articulation.${glyph.getCode()}.padding`, 0);
+  return y + (Math.abs(snappedLine - articLine) * staffSpace + padding) * direction;
+}
 
-    if (accidental) {
-      accidentalOffset = getAccidentalOffset(accidental);
+/**
+ * Determines the bounding box of an ornament along with the accidentals above and below it.  
+ * Ported from Ornament.draw.
+ * @param ornament The ornament.
+ * @param note The note the ornament is attached to.
+ * @returns The bounding box.
+ */
+function getOrnamentBoundingBox(ornament: any, note: any): BoundingBox | undefined {
+  let { glyph, accidentalUpper, accidentalLower, render_options: renderOptions, text_line: textLine } = ornament;
+  let stave = note.getStave();
+  let isStemDown = note.getStemDirection() === VF.Flow.StaveNote.STEM_DOWN;
+  let stemExtents = note.getStemExtents();
+  let y = isStemDown ? stemExtents.baseY : stemExtents.topY;
+  if (note instanceof VF.Flow.TabNote && (!note.hasStem() || isStemDown)) {
+    y = stave.getYForTopText(textLine);
+  }
+
+  // beamed stems are longer, so ornaments on the stem side are moved further up
+  let lineSpacing = !isStemDown && note.beam ? 1.5 : 1;
+  let glyphX = note.getModifierStartXY(ornament.position, ornament.index).x + (ornament.delayed ? ornament.delayXShift || 0 : 0);
+  let glyphY = Math.min(stave.getYForTopText(textLine), y - stave.getSpacingBetweenLines() * (textLine + lineSpacing)) +
+    ornament.y_shift;
+
+  let boxes: BoundingBox[] = [];
+  if (accidentalLower) {
+    boxes.push(getGlyphBoundingBox(accidentalLower, glyphX, glyphY));
+    glyphY -= accidentalLower.getMetrics().height + renderOptions.accidentalLowerPadding;
+  }
+
+  boxes.push(getGlyphBoundingBox(glyph, glyphX, glyphY));
+  glyphY -= glyph.getMetrics().height;
+
+  if (accidentalUpper) {
+    boxes.push(getGlyphBoundingBox(accidentalUpper, glyphX, glyphY - renderOptions.accidentalUpperPadding));
+  }
+
+  return getBoundingBoxUnion(boxes);
+}
+
+/**
+ * Determines the bounding box of an annotation.  Ported from Annotation.draw.
+ * @param annotation The annotation.
+ * @param note The note the annotation is attached to.
+ * @returns The bounding box.
+ */
+function getAnnotationBoundingBox(annotation: any, note: any): BoundingBox {
+  let { text, text_line: textLine, justification, vert_justification: vertJustification } = annotation;
+  let { Justify, VerticalJustify } = VF.Flow.Annotation;
+  let start = note.getModifierStartXY(VF.Flow.Modifier.Position.ABOVE, annotation.index);
+  let stave = note.getStave();
+  let textBox = getTextBoundingBox(text, 0, 0);
+  let hasStem = note.hasStem();
+  let spacing = stave.getSpacingBetweenLines();
+  let stemExtents = note.getStemExtents();
+
+  let x = justification === Justify.LEFT ? start.x :
+    justification === Justify.RIGHT ? start.x - textBox.w :
+      justification === Justify.CENTER ? start.x - textBox.w / 2 :
+        note.getStemX() - textBox.w / 2;
+
+  let y: number;
+  if (vertJustification === VerticalJustify.BOTTOM) {
+    y = stave.getYForBottomText(textLine + (VF.Flow as any).TEXT_HEIGHT_OFFSET_HACK);
+    if (hasStem) {
+      let stemBase = note.getStemDirection() === VF.Flow.StaveNote.STEM_UP ? stemExtents.baseY : stemExtents.topY;
+      y = Math.max(y, stemBase + spacing * (textLine + 2));
     }
+  } else if (vertJustification === VerticalJustify.CENTER) {
+    let yt = note.getYForTopText(textLine) - 1;
+    let yb = stave.getYForBottomText(textLine);
+    y = yt + (yb - yt) / 2 + textBox.h / 2;
+  } else if (vertJustification === VerticalJustify.TOP) {
+    y = Math.min(stave.getYForTopText(textLine), note.getYs()[0] - 10);
+    if (hasStem) {
+      y = Math.min(y, stemExtents.topY - 5 - spacing * textLine);
+    }
+  } else {
+    y = stemExtents.topY + (stemExtents.baseY - stemExtents.topY) / 2 + textBox.h / 2;
   }
 
-  let note = noteLetterMap[accidentalOffset];
-  return { note, octave };
+  return getTextBoundingBox(text, x, y);
 }
 
 /**
- * Different types of accidentals.  
+ * Determines the bounding box of a fingering or string number.  Ported from FretHandFinger.draw 
+ * and StringNumber.draw.
+ * @param modifier The fingering or string number.
+ * @param note The note the modifier is attached to.
+ * @returns The bounding box.
  */
-type Accidental = "bb" | "b" | "n" | "#" | "##";
+function getFingeringBoundingBox(modifier: any, note: any): BoundingBox {
+  let { ABOVE, BELOW, LEFT, RIGHT } = VF.Flow.Modifier.Position;
+  let { position, x_shift: xShift, y_shift: yShift, x_offset: xOffset, y_offset: yOffset } = modifier;
+  let start = note.getModifierStartXY(position, modifier.index);
+  let x = start.x + xShift + xOffset;
+  let y = start.y + yShift + yOffset;
+
+  if (modifier instanceof VF.Flow.FretHandFinger) {
+    y += 5;
+    x += position === ABOVE ? -4 : position === BELOW ? -2 : position === LEFT ? -modifier.getWidth() : 1;
+    y += position === ABOVE ? -12 : position === BELOW ? 10 : 0;
+    return getTextBoundingBox(`${modifier.finger}`, x, y);
+  }
+
+  // string numbers are circled, positioned outside the stem above or below the note
+  let { radius } = modifier;
+  let lineSpace = note.getStave().getSpacingBetweenLines();
+  if (position === ABOVE || position === BELOW) {
+    let stemExtents = note.getStemExtents();
+    let isStemDown = note.getStemDirection() === VF.Flow.StaveNote.STEM_DOWN;
+    let top = isStemDown ? stemExtents.baseY : stemExtents.topY;
+    let bottom = isStemDown ? stemExtents.topY - 2 : stemExtents.baseY + 2;
+    y = position === ABOVE ?
+      (note.hasStem() ? top - lineSpace * 1.75 : start.y - lineSpace * 1.75) :
+      (note.hasStem() ? bottom + lineSpace * 1.5 : start.y + lineSpace * 1.75);
+    y += yShift + yOffset;
+  } else if (position === LEFT) {
+    x -= radius / 2 + 5;
+  } else if (position === RIGHT) {
+    x += radius / 2 + 6;
+  }
+
+  return { x: x - radius, y: y - radius, w: radius * 2, h: radius * 2 };
+}
 
 /**
- * Different note letters.
+ * Determines the bounding box of an accidental including the parentheses of a cautionary 
+ * accidental.  Ported from Accidental.draw.
+ * @param accidental The accidental.
+ * @param note The note the accidental is attached to.
+ * @returns The bounding box.
  */
-type NoteLetter = "A" | "B" | "C" | "D" | "E" | "F" | "G";
+function getAccidentalBoundingBox(accidental: any, note: any): BoundingBox | undefined {
+  let { glyph, parenLeft, parenRight, render_options: renderOptions } = accidental;
+  let start = note.getModifierStartXY(accidental.position, accidental.index);
+  let x = start.x + accidental.x_shift;
+  let y = start.y + accidental.y_shift;
+  if (!accidental.cautionary) {
+    return getGlyphBoundingBox(glyph, x, y);
+  }
+
+  let boxes = [getGlyphBoundingBox(parenRight, x, y)];
+  x -= parenRight.getMetrics().width + renderOptions.parenRightPadding + accidental.accidental.parenRightPaddingAdjustment;
+  boxes.push(getGlyphBoundingBox(glyph, x, y));
+  x -= glyph.getMetrics().width + renderOptions.parenLeftPadding;
+  boxes.push(getGlyphBoundingBox(parenLeft, x, y));
+  return getBoundingBoxUnion(boxes);
+}
 
 /**
- * Describes a note with no respect to octave including
- * the note letter and the accidental.
+ * Determines the bounding box of the glyphs of text dynamics (i.e. mf).  Ported from TextDynamics.draw.
+ * @param dynamics The text dynamics.
+ * @returns The bounding box.
  */
-type Note = { noteLetter: NoteLetter, accidental: Accidental | undefined }
+function getTextDynamicsBoundingBox(dynamics: VF.Flow.TextDynamics): BoundingBox | undefined {
+  let { glyphs, sequence, line } = dynamics as any;
+  let x = dynamics.getAbsoluteX();
+  let y = dynamics.getStave().getYForLine(line - 3);
+  return getBoundingBoxUnion((glyphs as VF.Flow.Glyph[]).map((glyph, idx) => {
+    let boundingBox = getGlyphBoundingBox(glyph, x, y);
+    x += (VF.Flow.TextDynamics as any).GLYPHS[sequence[idx]].width;
+    return boundingBox;
+  }));
+}
 
 /**
- * A mapping of notes to accidentals representing a key signature
- * (i.e. Bb keysignature would have a Bb and Eb).
+ * Determines the bounding box of a rendered modifier from its position and glyph metrics the way 
+ * vexflow positions it when drawing.  Other modifiers are estimated from where vexflow starts 
+ * drawing them and their formatted width, one staff space high.
+ * @param modifier The modifier.
+ * @returns The bounding box or undefined if it has not been rendered.
  */
-type KeySigAccidentals = { [noteLetter: string]: Accidental }
+function getModifierBoundingBox(modifier: any): BoundingBox | undefined {
+  let note = modifier.getNote && modifier.getNote();
+  if (!note || !modifier.isRendered()) {
+    return undefined;
+  }
+
+  if (modifier instanceof VF.Flow.GraceNoteGroup) {
+    return getBoundingBoxUnion(((modifier as any).getGraceNotes() as VF.Flow.Tickable[])
+      .map(getTickableBoundingBox)
+      .filter(bb => bb !== undefined) as BoundingBox[]);
+  } else if (modifier instanceof VF.Flow.Articulation) {
+    let { x } = note.getModifierStartXY(modifier.getPosition(), modifier.getIndex());
+    return getGlyphBoundingBox((modifier as any).glyph, x, getArticulationY(modifier, note));
+  } else if (modifier instanceof VF.Flow.Ornament) {
+    return getOrnamentBoundingBox(modifier, note);
+  } else if (modifier instanceof VF.Flow.Annotation) {
+    return getAnnotationBoundingBox(modifier, note);
+  } else if (modifier instanceof VF.Flow.FretHandFinger || modifier instanceof VF.Flow.StringNumber) {
+    return getFingeringBoundingBox(modifier, note);
+  } else if (modifier instanceof VF.Flow.Accidental) {
+    return getAccidentalBoundingBox(modifier, note);
+  } else if (modifier instanceof VF.Flow.Dot) {
+    let { x_shift: xShift, y_shift: yShift, radius, dot_shiftY: dotShiftY } = modifier as any;
+    let start = note.getModifierStartXY(modifier.getPosition(), modifier.getIndex(), { forceFlagRight: true });
+    let y = note instanceof VF.Flow.TabNote ? note.getStemExtents().baseY : start.y;
+    let x = start.x + xShift + modifier.getWidth() - radius;
+    y += yShift + dotShiftY * note.getStave().getSpacingBetweenLines();
+    return { x: x - radius, y: y - radius, w: radius * 2, h: radius * 2 };
+  }
+
+  let spacing = note.getStave().getSpacingBetweenLines();
+  let start = note.getModifierStartXY(modifier.getPosition(), modifier.getIndex());
+  let x = start.x + modifier.x_shift;
+  let w = modifier.getWidth();
+  return {
+    x: modifier.getPosition() === VF.Flow.Modifier.Position.LEFT ? x - w : x,
+    y: start.y + modifier.y_shift - spacing / 2,
+    w,
+    h: spacing
+  };
+}
 
 /**
- * A mapping of notes to accidentals representing measure accidentals.
+ * Determines the modifiers of the tickables in a system measure along with their bounding boxes.
+ * TextDynamics, which are tickables without a bounding box, are included as well.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param system The system measure.
+ * @returns The modifiers with bounding boxes.
  */
-type AccidentalOverrides = { [noteLetter: string]: Accidental }
+function getSystemModifiers(lookup: ScoreLookup, system: VF.Flow.System): ModifierResult[] {
+  let results: ModifierResult[] = [];
+  ((system as any).parts || []).forEach((part: any, staveIdx: number) => {
+    for (let voice of part.voices || []) {
+      for (let tickable of lookup.getTickablesAndBeats(voice)) {
+        let note = tickable.tickable as any;
+        if (tickable.tickable instanceof VF.Flow.TextDynamics && note.isRendered()) {
+          let boundingBox = getTextDynamicsBoundingBox(note);
+          if (boundingBox) {
+            results.push({ modifier: note, category: note.getCategory(), tickable, staveIdx, keyIndex: undefined, boundingBox });
+          }
+        }
+
+        for (let modifier of (note.getModifiers ? note.getModifiers() : []) as any[]) {
+          let boundingBox = getModifierBoundingBox(modifier);
+          if (boundingBox) {
+            let keyIndex = modifier.getIndex ? modifier.getIndex() : undefined;
+            results.push({
+              modifier,
+              category: modifier.getCategory(),
+              tickable,
+              staveIdx,
+              keyIndex: typeof keyIndex === "number" ? keyIndex : undefined,
+              boundingBox
+            });
+          }
+        }
+      }
+    }
+  });
+
+  return results;
+}
 
 /**
- * Parses a note string (i.e. C#) into the relevant note object.
- * @param noteStr The note string.
- * @returns The parsed note or undefined if it cannot be parsed.
+ * The kind of score element under the mouse.
  */
-function parseNote(noteStr: string): Note | undefined {
-  let trimmed = noteStr.trim();
-  if (!trimmed || !trimmed.length) {
+export type HitTargetType =
+  "note" | "rest" | "clef" | "keySignature" | "timeSignature" | "barline" | "tempo" | "connector" | "empty";
+
+/**
+ * The score element under the mouse.
+ */
+export type HitTarget = {
+  /**
+   * The kind of element.
+   */
+  type: HitTargetType,
+
+  /**
+   * The vexflow object that was hit (i.e. a Clef, KeySignature, StaveNote or KeySigNote).  
+   * Undefined if nothing was hit.
+   */
+  element: VF.Flow.StaveModifier | VF.Flow.Tickable | VF.Flow.StaveConnector | undefined,
+
+  /**
+   * The index of the stave of the element.  Undefined for connectors, which span staves, 
+   * and if nothing was hit.
+   */
+  staveIdx: number | undefined,
+
+  /**
+   * The bounding box of the element.  Undefined if nothing was hit.
+   */
+  boundingBox: BoundingBox | undefined
+};
+
+/**
+ * The hit target types of the stave modifiers by category.
+ */
+const STAVE_MODIFIER_HIT_TYPES: { [category: string]: HitTargetType } = {
+  [(VF.Flow.Clef as any).CATEGORY]: "clef",
+  [(VF.Flow.KeySignature as any).CATEGORY]: "keySignature",
+  [(VF.Flow.TimeSignature as any).CATEGORY]: "timeSignature",
+  [(VF.Flow.Barline as any).CATEGORY]: "barline",
+  [(VF.Flow.StaveTempo as any).CATEGORY]: "tempo"
+};
+
+/**
+ * Returns the hit target type of a tickable.
+ * @param tickable The tickable.
+ * @returns The type (i.e. clef for a ClefNote or rest for a rest).
+ */
+function getTickableHitType(tickable: VF.Flow.Tickable): HitTargetType {
+  if (getClefNoteClef(tickable)) {
+    return "clef";
+  } else if (tickable instanceof VF.Flow.KeySigNote) {
+    return "keySignature";
+  } else if (tickable instanceof VF.Flow.TimeSigNote) {
+    return "timeSignature";
+  } else if (tickable instanceof VF.Flow.BarNote) {
+    return "barline";
+  }
+
+  return (tickable as any).isRest && (tickable as any).isRest() ? "rest" : "note";
+}
+
+/**
+ * Determines the bounding box of a barline from the extents vexflow lays it out with, spanning 
+ * the lines of the stave.
+ * @param barline The barline.
+ * @param x The x coordinate the barline is drawn at.
+ * @param stave The stave of the barline.
+ * @returns The bounding box or undefined for barlines that are not drawn.
+ */
+function getBarlineBoundingBox(barline: VF.Flow.Barline, x: number, stave: VF.Flow.Stave): BoundingBox | undefined {
+  let { type, layoutMetrics: { xMin, xMax } } = barline as any;
+  if (type === VF.Flow.Barline.type.NONE) {
     return undefined;
-  } else {
-    let noteLetter = trimmed[0].toUpperCase() as NoteLetter;
+  }
 
-    switch (noteLetter) {
-      case 'A':
-      case 'B':
-      case 'C':
-      case 'D':
-      case 'E':
-      case 'F':
-      case 'G':
-        break;
-      default:
-        return undefined;
-    }
+  // a begin repeat moved after the clef and key signature also draws a single barline at the start of the stave
+  let left = type === VF.Flow.Barline.type.REPEAT_BEGIN ? Math.min(x + xMin, stave.getX()) : x + xMin;
+  return getStaveLinesBoundingBox(stave, left, x + xMax - left);
+}
 
-    let accidental: Accidental | undefined = undefined;
-    let accidentalStr = trimmed.substring(1);
-    if (accidentalStr.length > 0) {
-      accidental = accidentalStr as Accidental;
+/**
+ * Determines the bounding box of a stave tempo mark.  The text is estimated with Flow.textWidth and 
+ * the note with its notehead width and stem height at the tempo's font scale, as in StaveTempo.draw.
+ * @param tempo The tempo mark.
+ * @param stave The stave of the tempo mark.
+ * @param shiftX The shift vexflow draws the modifier with.
+ * @returns The bounding box.
+ */
+function getStaveTempoBoundingBox(tempo: VF.Flow.StaveTempo, stave: VF.Flow.Stave, shiftX: number): BoundingBox {
+  let { tempo: { name, duration, dots, bpm }, render_options: renderOptions, x, shift_x: tempoShiftX, shift_y: shiftY } = tempo as any;
+  let scale = renderOptions.glyph_font_scale / 38;
+  let text = name || "";
+  let noteWidth = 0;
+  let h = VF.Flow.textWidth("m");
+  if (duration && bpm) {
+    text += `${name ? " (" : ""} = ${bpm}${name ? ")" : ""}`;
+    noteWidth = (3 + (VF.Flow as any).getGlyphProps(duration).getWidth() + 6 * (dots || 0) + 3) * scale;
+    h = Math.max(h, 30 * scale);
+  }
 
-      switch (accidental) {
-        case '##':
-        case '#':
-        case 'b':
-        case 'bb':
-        case 'n':
-          break;
-        default:
-          return undefined;
-      }
-    }
+  let y = stave.getYForTopText(1) + shiftY;
+  return { x: x + tempoShiftX + shiftX, y: y - h, w: VF.Flow.textWidth(text) + noteWidth, h };
+}
 
-    return {
-      accidental,
-      noteLetter
-    }
+/**
+ * Determines the bounding box of a stave connector from where StaveConnector.draw places each type.
+ * @param connector The connector.
+ * @returns The bounding box or undefined if the connector has not been rendered or draws nothing.
+ */
+function getStaveConnectorBoundingBox(connector: VF.Flow.StaveConnector): BoundingBox | undefined {
+  let { top_stave: topStave, bottom_stave: bottomStave, type, width, thickness, x_shift: xShift } = connector as any;
+  let types = VF.Flow.StaveConnector.type;
+  if (!(connector as any).isRendered()) {
+    return undefined;
+  }
+
+  let x = topStave.getX();
+  let isRightSided = type === types.SINGLE_RIGHT || type === types.BOLD_DOUBLE_RIGHT || type === types.THIN_DOUBLE;
+  if (isRightSided) {
+    x += topStave.width;
+  }
+
+  let top = topStave.getYForLine(0);
+  let bottom = bottomStave.getYForLine(bottomStave.getNumLines() - 1) + thickness;
+  let left: number;
+  let right: number;
+  switch (type) {
+    case types.SINGLE_LEFT:
+    case types.SINGLE_RIGHT:
+      [left, right] = [x, x + 1];
+      break;
+    case types.DOUBLE:
+      [left, right] = [x - width - 2, x - 2];
+      break;
+    case types.BRACE:
+      // the brace curves out to the left by twice its width
+      [left, right] = [x - 2 + xShift - 24, x - 2 + xShift];
+      break;
+    case types.BRACKET:
+      [left, right] = [x - width - 2, x];
+      top -= 6;
+      bottom += 6;
+      break;
+    case types.BOLD_DOUBLE_LEFT:
+      [left, right] = [x + xShift - 2, x + xShift + 4];
+      break;
+    case types.BOLD_DOUBLE_RIGHT:
+      [left, right] = [x - 5, x + 1];
+      break;
+    case types.THIN_DOUBLE:
+      [left, right] = [x - 3, x + 1];
+      break;
+    default:
+      return undefined;
   }
+
+  return { x: left, y: top, w: right - left, h: bottom - top };
 }
 
 /**
- * Format a note object into the relevant string (i.e. Bb).
- * @param note The note object.
- * @returns The relevant string (i.e. Bb).
+ * Determines the bounding box of stave furniture with a width spanning the lines of the stave.
+ * @param stave The stave.
+ * @param x The left of the furniture.
+ * @param w The width of the furniture.
+ * @returns The bounding box.
  */
-function formatNote(note: Note): string {
-  return note.noteLetter + (note.accidental || "");
+function getStaveLinesBoundingBox(stave: VF.Flow.Stave, x: number, w: number): BoundingBox {
+  let top = stave.getYForLine(0) - VF.Flow.STAVE_LINE_THICKNESS / 2;
+  let bottom = stave.getYForLine(stave.getNumLines() - 1) + VF.Flow.STAVE_LINE_THICKNESS / 2;
+  return { x, y: top, w, h: bottom - top };
 }
 
 /**
- * Parses a note string of form C#4 into its constituent parts.
- * @param noteWithOctave The note string.
- * @returns The parsed note.
+ * Determines the bounding box of a rendered stave modifier (i.e. a clef) from its formatted position 
+ * and width.  Barlines use the extents they are laid out with and tempo marks their text.
+ * @param modifier The stave modifier.
+ * @param stave The stave.
+ * @param modifierIdx The index of the modifier within the stave.
+ * @returns The bounding box or undefined if the modifier has not been rendered or draws nothing.
  */
-function parseNoteAndOctave(noteWithOctave: string): { note: Note, octave: number } | undefined {
-  let pieces = noteWithOctave.split("/");
-  if (pieces.length !== 2) {
+function getStaveModifierBoundingBox(modifier: any, stave: VF.Flow.Stave, modifierIdx: number): BoundingBox | undefined {
+  let x: number = modifier.getX();
+  if (!modifier.isRendered()) {
     return undefined;
+  } else if (modifier instanceof VF.Flow.Barline) {
+    return getBarlineBoundingBox(modifier, x, stave);
+  } else if (modifier instanceof VF.Flow.StaveTempo) {
+    return getStaveTempoBoundingBox(modifier, stave, stave.getModifierXShift(modifierIdx));
   }
 
-  let note = parseNote(pieces[0]);
-  let octave = parseInt(pieces[1], 10);
-  return (note && octave && !isNaN(octave))
-    ? { note, octave }
-    : undefined;
+  return getStaveLinesBoundingBox(stave, x, modifier.getWidth());
 }
 
 /**
- * Accidentals for each key signature.
+ * Determines the bounding box of a rendered clef, key signature, time signature or bar note within 
+ * a voice from its position and formatted width.
+ * @param tickable The tickable.
+ * @returns The bounding box or undefined if the tickable has not been rendered or draws nothing.
  */
-const KEY_SIGNATURE_ACCIDENTALS: { [key: string]: string[] } = {
-  "C": [],
+function getFurnitureTickableBoundingBox(tickable: VF.Flow.Tickable): BoundingBox | undefined {
+  let note = tickable as VF.Flow.Note;
+  if (!(note as any).isRendered()) {
+    return undefined;
+  } else if (note instanceof VF.Flow.BarNote) {
+    // bar notes draw a barline of their type at their position
+    return getBarlineBoundingBox(new VF.Flow.Barline(note.getType(), note.getAbsoluteX()), note.getAbsoluteX(), note.getStave());
+  }
 
-  "G": ["F#"],
-  "D": ["F#", "C#"],
-  "A": ["F#", "C#", "G#"],
-  "E": ["F#", "C#", "G#", "D#"],
-  "B": ["F#", "C#", "G#", "D#", "A#"],
-  "F#": ["F#", "C#", "G#", "D#", "A#", "E#"],
-  "C#": ["F#", "C#", "G#", "D#", "A#", "E#", "B#"],
+  return getTickableBoundingBox(note) || getStaveLinesBoundingBox(note.getStave(), note.getAbsoluteX(), note.getWidth());
+}
 
-  "F": ["Bb"],
-  "Bb": ["Bb", "Eb"],
-  "Eb": ["Bb", "Eb", "Ab"],
-  "Ab": ["Bb", "Eb", "Ab", "Db"],
-  "Db": ["Bb", "Eb", "Ab", "Db", "Gb"],
-  "Gb": ["Bb", "Eb", "Ab", "Db", "Gb", "Cb"],
-  "Cb": ["Bb", "Eb", "Ab", "Db", "Gb", "Cb", "Fb"]
+/**
+ * Determines the stave furniture of a system measure that can be hit along with bounding boxes: 
+ * clefs, key signatures, time signatures, barlines and tempo marks of each stave, the same 
+ * changes within each voice (i.e. a ClefNote) and the connector of the system.  Notes and rests 
+ * are not included since they are resolved from the closest tickable.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param system The system measure.
+ * @returns The hit targets with bounding boxes.
+ */
+function getSystemHitTargets(lookup: ScoreLookup, system: VF.Flow.System): HitTarget[] {
+  let results: HitTarget[] = [];
+  ((system as any).parts || []).forEach((part: any, staveIdx: number) => {
+    let stave = part.stave as any;
+    if (stave) {
+      (stave.getModifiers() as any[]).forEach((modifier, modifierIdx) => {
+        let type = STAVE_MODIFIER_HIT_TYPES[modifier.getCategory()];
+        let boundingBox = type && getStaveModifierBoundingBox(modifier, stave, modifierIdx);
+
+        if (boundingBox) {
+          results.push({ type, element: modifier, staveIdx, boundingBox });
+        }
+      });
+    }
+
+    for (let voice of part.voices || []) {
+      for (let { tickable } of lookup.getTickablesAndBeats(voice)) {
+        let type = getTickableHitType(tickable);
+        let boundingBox = type !== "note" && type !== "rest" && getFurnitureTickableBoundingBox(tickable);
+
+        if (boundingBox) {
+          results.push({ type, element: tickable, staveIdx, boundingBox });
+        }
+      }
+    }
+  });
+
+  let connector = (system as any).connector;
+  let boundingBox = connector && getStaveConnectorBoundingBox(connector);
+  if (boundingBox) {
+    results.push({ type: "connector", element: connector, staveIdx: undefined, boundingBox });
+  }
+
+  return results;
+}
+
+/**
+ * Determines the element under a point.  The closest tickable takes precedence over stave furniture 
+ * and the smallest piece of stave furniture takes precedence where they overlap.
+ * @param targets The stave furniture of the measure.
+ * @param closestTickable The closest tickable in the closest stave.
+ * @param staveIdx The index of the closest stave.
+ * @param pt The point.
+ * @returns The hit target or an empty target if the point is not within any element.
+ */
+function getHitTarget(
+  targets: HitTarget[],
+  closestTickable: TickableAndBeat | undefined,
+  staveIdx: number | undefined,
+  pt: Point): HitTarget {
+
+  let tickableBB = closestTickable && getTickableBoundingBox(closestTickable.tickable);
+  if (closestTickable && tickableBB && getDistance(pt, tickableBB) === 0) {
+    return { type: getTickableHitType(closestTickable.tickable), element: closestTickable.tickable, staveIdx, boundingBox: tickableBB };
+  }
+
+  // targets can overlap (i.e. a begin repeat barline drawn at the start of the stave spans the clef 
+  // and key signature before it), so the smallest target containing the point is the most specific
+  let containing = targets.filter(target => getDistance(pt, target.boundingBox as BoundingBox) === 0);
+  return getClosest(containing, target => (target.boundingBox as BoundingBox).w * (target.boundingBox as BoundingBox).h)?.item ||
+    { type: "empty", element: undefined, staveIdx: undefined, boundingBox: undefined };
+}
+
+/**
+ * A tie or curve (i.e. a slur) near the mouse.
+ */
+export type CurveResult = {
+  /**
+   * The tie or curve.
+   */
+  curve: VF.Flow.StaveTie | VF.Flow.Curve,
+
+  /**
+   * The note the curve starts from.  Undefined if the curve continues from a previous system.
+   */
+  startNote: VF.Flow.Note | undefined,
+
+  /**
+   * The note the curve ends at.  Undefined if the curve continues onto a following system.
+   */
+  endNote: VF.Flow.Note | undefined,
+
+  /**
+   * The points vexflow draws the outer edge of the closest path with: the start point, the 
+   * control points and the end point.  A tie across a chord draws a path for each key.
+   */
+  controlPoints: Point[],
+
+  /**
+   * The distance from the mouse to the curve.
+   */
+  distance: number,
+
+  /**
+   * The index in controlPoints of the handle within the handle tolerance of the mouse if any.
+   */
+  handleIdx: number | undefined
+};
+
+/**
+ * The default distance in pixels within which the mouse is near a curve control handle.
+ */
+const DEFAULT_HANDLE_TOLERANCE = 6;
+
+/**
+ * The number of line segments used to approximate a bezier curve when measuring distance.
+ */
+const BEZIER_SEGMENTS = 24;
+
+/**
+ * Determines the point at a position along a bezier curve of any degree.
+ * @param controlPoints The start point, control points and end point.
+ * @param t The position along the curve from 0 to 1.
+ * @returns The point on the curve.
+ */
+function getBezierPoint(controlPoints: Point[], t: number): Point {
+  let points = controlPoints;
+  while (points.length > 1) {
+    let prev = points;
+    points = prev.slice(1).map((p, i) => ({ x: prev[i].x + (p.x - prev[i].x) * t, y: prev[i].y + (p.y - prev[i].y) * t }));
+  }
+
+  return points[0];
+}
+
+/**
+ * Gets the distance of a point to a line segment.
+ * @param pt The point.
+ * @param a The start of the segment.
+ * @param b The end of the segment.
+ * @returns The distance.
+ */
+function getSegmentDistance(pt: Point, a: Point, b: Point): number {
+  let dx = b.x - a.x;
+  let dy = b.y - a.y;
+  let lengthSq = dx * dx + dy * dy;
+  let t = lengthSq > 0 ? Math.max(0, Math.min(1, ((pt.x - a.x) * dx + (pt.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.sqrt(Math.pow(pt.x - (a.x + t * dx), 2) + Math.pow(pt.y - (a.y + t * dy), 2));
+}
+
+/**
+ * Gets the distance of a point to a bezier curve by approximating the curve with line segments.
+ * @param pt The point.
+ * @param controlPoints The start point, control points and end point.
+ * @returns The distance.
+ */
+function getBezierDistance(pt: Point, controlPoints: Point[]): number {
+  let distance = Infinity;
+  let prev = controlPoints[0];
+  for (let i = 1; i <= BEZIER_SEGMENTS; i++) {
+    let cur = getBezierPoint(controlPoints, i / BEZIER_SEGMENTS);
+    distance = Math.min(distance, getSegmentDistance(pt, prev, cur));
+    prev = cur;
+  }
+
+  return distance;
+}
+
+/**
+ * Determines the paths of a rendered tie.  Ported from StaveTie.draw, which draws a path for each tied 
+ * key as a quadratic curve to the end note and another back to the start.
+ * @param tie The tie.
+ * @returns The paths each with the start point, control point and end point of its edges.
+ */
+function getTiePaths(tie: VF.Flow.StaveTie): Point[][][] {
+  let { first_note: firstNote, last_note: lastNote, first_indices, last_indices, direction: tieDirection, render_options: options } = tie as any;
+  let firstX = firstNote ? firstNote.getTieRightX() + options.tie_spacing : lastNote.getStave().getTieStartX();
+  let lastX = lastNote ? lastNote.getTieLeftX() + options.tie_spacing : firstNote.getStave().getTieEndX();
+  let firstYs: number[] = (firstNote || lastNote).getYs();
+  let lastYs: number[] = (lastNote || firstNote).getYs();
+
+  // a tie continuing from or onto another system uses the keys of the note it has at both ends
+  let firstIndices: number[] = firstNote ? first_indices : last_indices;
+  let lastIndices: number[] = lastNote ? last_indices : firstIndices;
+
+  // tab ties always face up
+  let direction = tie instanceof VF.Flow.TabTie ? -1 : tieDirection || (lastNote || firstNote).getStemDirection();
+  let [cp1, cp2] = Math.abs(lastX - firstX) < 10 ? [2, 8] : [options.cp1, options.cp2];
+  let startX = firstX + options.first_x_shift;
+  let endX = lastX + options.last_x_shift;
+  let yShift = options.y_shift * direction;
+
+  return firstIndices
+    .map((firstIdx, i) => {
+      let start = { x: startX, y: firstYs[firstIdx] + yShift };
+      let end = { x: endX, y: lastYs[lastIndices[i]] + yShift };
+      let midY = (start.y + end.y) / 2;
+      return [
+        [start, { x: (startX + endX) / 2, y: midY + cp1 * direction }, end],
+        [end, { x: (startX + endX) / 2, y: midY + cp2 * direction }, start]
+      ];
+    })
+    .filter(path => !isNaN(path[0][0].y) && !isNaN(path[0][2].y));
+}
+
+/**
+ * Determines the path of a rendered curve (i.e. a slur).  Ported from Curve.draw, which draws the 
+ * outer edge as a cubic curve to the end note and the inner edge, offset by the thickness, back to the start.
+ * @param curve The curve.
+ * @returns The path with the start point, control points and end point of its edges.
+ */
+function getSlurPaths(curve: VF.Flow.Curve): Point[][][] {
+  let { from, to, render_options: options } = curve as any;
+  let { NEAR_TOP, NEAR_HEAD } = VF.Flow.Curve.Position;
+  let getPosition = (position: any) => typeof position === "string" ? (VF.Flow.Curve as any).PositionString[position] : position;
+  let position = getPosition(options.position);
+  let positionEnd = getPosition(options.position_end);
+  let metric: "baseY" | "topY" = position === NEAR_TOP ? "topY" : "baseY";
+  let endMetric: "baseY" | "topY" = positionEnd === NEAR_TOP ? "topY" : positionEnd === NEAR_HEAD ? "baseY" : metric;
+
+  let firstX = from ? from.getTieRightX() : to.getStave().getTieStartX();
+  let firstY = (from || to).getStemExtents()[metric];
+  let lastX = to ? to.getTieLeftX() : from.getStave().getTieEndX();
+  let lastY = (to || from).getStemExtents()[endMetric];
+  let direction = (to || from).getStemDirection() * (options.invert === true ? -1 : 1);
+
+  let start = { x: firstX + options.x_shift, y: firstY + options.y_shift * direction };
+  let end = { x: lastX - options.x_shift, y: lastY + options.y_shift * direction };
+  let [cp0, cp1] = options.cps;
+  let cpSpacing = (end.x - start.x) / (options.cps.length + 2);
+  let getControlPoints = (offset: number) => [
+    { x: start.x + cpSpacing + cp0.x, y: start.y + (cp0.y + offset) * direction },
+    { x: end.x - cpSpacing + cp1.x, y: end.y + (cp1.y + offset) * direction }
+  ];
+
+  let [outerStart, outerEnd] = getControlPoints(0);
+  let [innerStart, innerEnd] = getControlPoints(options.thickness);
+  return [[[start, outerStart, outerEnd, end], [end, innerEnd, innerStart, start]]];
+}
+
+/**
+ * The paths of a rendered tie or curve.
+ */
+type CurvePaths = {
+  curve: VF.Flow.StaveTie | VF.Flow.Curve,
+
+  /**
+   * The paths each with the start point, control points and end point of its edges.
+   */
+  paths: Point[][][],
+
+  /**
+   * The bounding box of the paths including their control points or undefined if nothing was drawn.
+   */
+  boundingBox: BoundingBox | undefined
+};
+
+/**
+ * Determines the paths of a tie or curve along with their bounding box.
+ * @param curve The tie or curve.
+ * @returns The paths, which are empty if the tie or curve has not been rendered.
+ */
+function getCurvePaths(curve: VF.Flow.StaveTie | VF.Flow.Curve): CurvePaths {
+  let paths = !(curve as any).isRendered() ? [] :
+    curve instanceof VF.Flow.StaveTie ? getTiePaths(curve) : getSlurPaths(curve);
+  let points = paths.flatMap(path => path.flatMap(edge => edge));
+  return { curve, paths, boundingBox: points.length > 0 ? getPolygonBoundingBox(points) : undefined };
+}
+
+/**
+ * Determines the closest tie or curve to a point.  A curve lies within the bounding box of its 
+ * control points, so curves whose bounding box is further than the closest curve found are skipped.
+ * @param curves The paths of the ties and curves.
+ * @param pt The point.
+ * @param handleTolerance The distance within which the point is near a control handle.
+ * @returns The closest curve or undefined if none have been rendered.
+ */
+function getClosestCurve(
+  curves: CurvePaths[],
+  pt: Point,
+  handleTolerance: number): CurveResult | undefined {
+
+  let closest: CurveResult | undefined = undefined;
+  for (let { curve, paths, boundingBox } of curves) {
+    if (!boundingBox || (closest && getDistance(pt, boundingBox) >= closest.distance)) {
+      continue;
+    }
+
+    for (let path of paths) {
+      let distance = Math.min(...path.map(edge => getBezierDistance(pt, edge)));
+      if (!closest || distance < closest.distance) {
+        let { first_note, last_note, from, to } = curve as any;
+        let controlPoints = path[0];
+        let handle = getClosest(controlPoints, (point) => {
+          let handleDistance = Math.sqrt(Math.pow(pt.x - point.x, 2) + Math.pow(pt.y - point.y, 2));
+          return handleDistance <= handleTolerance ? handleDistance : undefined;
+        });
+
+        closest = {
+          curve,
+          startNote: curve instanceof VF.Flow.StaveTie ? first_note : from,
+          endNote: curve instanceof VF.Flow.StaveTie ? last_note : to,
+          controlPoints,
+          distance,
+          handleIdx: handle?.idx
+        };
+      }
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * The size of a comma in semitones in the 53 tone equal temperament used by 
+ * Turkish (Arel-Ezgi-Uzdilek) accidentals.
+ */
+const COMMA = 12 / 53;
+
+/**
+ * The semitone offset from natural for each accidental vexflow renders.  Quarter tone
+ * accidentals (Stein-Zimmermann, Persian sori and koron) are fractional semitones and 
+ * Turkish accidentals are multiples of a comma.  Other vexflow accidentals have no documented 
+ * pitch and are reported as unknown.
+ */
+const ACCIDENTAL_OFFSETS: { [accidental in Accidental]: number } = {
+  "bb": -2,
+  "b": -1,
+  "n": 0,
+  "#": 1,
+  "##": 2,
+  "d": -0.5,
+  "db": -1.5,
+  "+": 0.5,
+  "++": 1.5,
+  "k": -0.5,
+  "o": 0.5,
+  "bs": -4 * COMMA,
+  "bss": -8 * COMMA,
+  "+-": 5 * COMMA
+};
+
+/**
+ * Converts the accidental to its semitones offset from natural.
+ * @param accidental The accidental.  Undefined will be treated as a 0.
+ * @returns The semitone difference from a natural note (i.e. double sharp is 2, flat is -1, 
+ * quarter tone sharp is 0.5)
+ */
+function getAccidentalOffset(accidental: Accidental | undefined): number {
+  if (!accidental) {
+    return 0;
+  }
+
+  return ACCIDENTAL_OFFSETS[accidental];
+}
+
+/**
+ * Determines if the string is an accidental with a known semitone offset.
+ * @param accidental The accidental string (i.e. the type of a vexflow Accidental).
+ * @returns True if the accidental is in ACCIDENTAL_OFFSETS.
+ */
+function isAccidental(accidental: string): accidental is Accidental {
+  return Object.prototype.hasOwnProperty.call(ACCIDENTAL_OFFSETS, accidental);
+}
+
+
+/**
+ * Represents information about a note (i.e. Bb).
+ */
+export type NoteEntry = {
+  /**
+   * Semitones from C (i.e. Eb would be 3).  Microtonal accidentals result in 
+   * fractional semitones (i.e. E quarter tone flat would be 3.5).
+   */
+  semitoneVal: number,
+  /**
+   * The note (i.e. Eb).
+   */
+  noteName: Note,
+  /**
+   * Note letter difference from C (i.e. E is 2).
+   */
+  noteLetterIdx: number
+}
+
+/**
+ * A mapping of the note letter idx (index above C, so E would be 2).
+ */
+export type NoteMapping = {
+  [noteLetterIdx: number]: {
+    /**
+     * maps the accidental offset (i.e. sharp is 1, double flat is -2, quarter tone sharp is 0.5) to the NoteEntry.
+     */
+    [accidentalOffset: number]: NoteEntry,
+    /**
+     * The note letter for this entry.
+     */
+    noteLetter: NoteLetter
+  }
+};
+
+/**
+ * Creates a NoteMapping using VF.Flow.keyProperties to perform
+ * lookups of note meta data.
+ */
+export function getNoteMap(): NoteMapping {
+  let mapping: NoteMapping = {};
+  for (let [noteName, val] of Object.entries((VF.Flow.keyProperties as any).note_values)) {
+    let { index: noteLetterIdx, int_val: semitoneVal, accidental, rest, code } = val as any;
+    if (rest || code)
+      continue;
+
+    let items = mapping[noteLetterIdx];
+    if (!items) {
+      items = {
+        noteLetter: noteName[0] as NoteLetter
+      };
+      mapping[noteLetterIdx] = items;
+    }
+
+    let accidentalOffset = getAccidentalOffset(accidental);
+
+    let noteLetter = noteName[0] as NoteLetter;
+
+    items[accidentalOffset] = {
+      semitoneVal,
+      noteName: {
+        accidental: accidental || 'n',
+        noteLetter
+      },
+      noteLetterIdx
+    }
+  }
+
+  // vexflow key properties have no microtonal notes, so derive those from the natural notes.
+  for (let items of Object.values(mapping)) {
+    let natural = items[0];
+    if (!natural) {
+      continue;
+    }
+
+    for (let [accidental, accidentalOffset] of Object.entries(ACCIDENTAL_OFFSETS)) {
+      if (items[accidentalOffset]) {
+        continue;
+      }
+
+      items[accidentalOffset] = {
+        semitoneVal: ((natural.semitoneVal + accidentalOffset) % 12 + 12) % 12,
+        noteName: {
+          accidental: accidental as Accidental,
+          noteLetter: items.noteLetter
+        },
+        noteLetterIdx: natural.noteLetterIdx
+      };
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * A NoteMapping derived from vexflow key properties.
+ */
+export const NOTE_MAPPING = getNoteMap();
+
+/**
+ * The note and the octave for that note.
+ */
+export type NoteAndOctave = {
+  note: NoteEntry,
+  octave: number,
+
+  /**
+   * The offset of the pitch from the natural note letter in cents (i.e. 100 for a sharp,
+   * 50 for a quarter tone sharp, -90.57 for a Turkish bakiye flat).
+   */
+  cents: number,
+
+  /**
+   * The MIDI note number (i.e. C4 is 60).  Microtonal accidentals result in a fractional 
+   * number (i.e. C4 quarter tone sharp is 60.5).
+   */
+  midi: number,
+
+  /**
+   * The frequency in Hz based on the A4 reference frequency and temperament.
+   */
+  frequency: number,
+
+  /**
+   * Other spellings of the same pitch (i.e. A#4 and Cbb5 for Bb4).
+   */
+  enharmonics: { note: NoteEntry, octave: number }[]
+};
+
+/**
+ * A temperament described by the deviation in cents from equal temperament 
+ * of each pitch class starting from C.
+ */
+export type Temperament = number[];
+
+/**
+ * Twelve tone equal temperament.
+ */
+export const EQUAL_TEMPERAMENT: Temperament = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+/**
+ * Pythagorean tuning built from pure fifths starting at C.
+ */
+export const PYTHAGOREAN_TEMPERAMENT: Temperament =
+  [0, 13.685, 3.91, -5.865, 7.82, -1.955, 11.73, 1.955, 15.64, 5.865, -3.91, 9.775];
+
+/**
+ * Quarter-comma meantone with the wolf fifth between G# and Eb.
+ */
+export const MEANTONE_TEMPERAMENT: Temperament =
+  [0, -23.951, -6.843, 10.265, -13.686, 3.422, -20.529, -3.422, -27.372, -10.265, 6.843, -17.108];
+
+/**
+ * The default frequency of A4 in Hz.
+ */
+const DEFAULT_A4_FREQUENCY = 440;
+
+/**
+ * The MIDI note number of A4.
+ */
+const A4_MIDI = 69;
+
+/**
+ * Determines the MIDI note number of a note letter, accidental offset and octave.
+ * @param noteLetterIdx The note letter difference from C (i.e. E is 2).
+ * @param accidentalOffset The semitone offset from natural.
+ * @param octave The octave.
+ * @returns The MIDI note number which may be fractional for microtonal accidentals.
+ */
+function getMidiNumber(noteLetterIdx: number, accidentalOffset: number, octave: number): number {
+  return (octave + 1) * 12 + NOTE_LETTER_SEMITONES[noteLetterIdx] + accidentalOffset;
+}
+
+/**
+ * Determines the frequency of a MIDI note number.
+ * @param midi The MIDI note number which may be fractional.
+ * @param a4Frequency The frequency of A4 in Hz.
+ * @param temperament The temperament.  Fractional note numbers use a deviation interpolated 
+ * between the neighboring pitch classes.
+ * @returns The frequency in Hz.
+ */
+function getFrequency(midi: number, a4Frequency: number, temperament: Temperament): number {
+  let getDeviation = (noteNum: number) => temperament[((noteNum % 12) + 12) % 12] || 0;
+  let lower = Math.floor(midi);
+  let fraction = midi - lower;
+  let deviation = getDeviation(lower) * (1 - fraction) + getDeviation(lower + 1) * fraction;
+
+  // deviations are relative to A4 so that A4 remains the reference frequency.
+  let cents = (midi - A4_MIDI) * 100 + deviation - getDeviation(A4_MIDI);
+  return a4Frequency * Math.pow(2, cents / 1200);
+}
+
+/**
+ * Finds the other spellings of a pitch using the accidentals in the note map.
+ * @param noteMap A mapping of note letters to metadata about that note.
+ * @param note The note.
+ * @param octave The octave of the note.
+ * @returns The other notes and octaves with the same pitch.
+ */
+function getEnharmonics(noteMap: NoteMapping, note: NoteEntry, octave: number): { note: NoteEntry, octave: number }[] {
+  let midi = getMidiNumber(note.noteLetterIdx, getAccidentalOffset(note.noteName.accidental), octave);
+  let enharmonics: { note: NoteEntry, octave: number }[] = [];
+  for (let noteLetterIdx = 0; noteLetterIdx < 7; noteLetterIdx++) {
+    for (let enharmonicOctave = octave - 1; enharmonicOctave <= octave + 1; enharmonicOctave++) {
+      for (let accidentalOffset of Object.values(ACCIDENTAL_OFFSETS)) {
+        let entry = noteMap[noteLetterIdx]?.[accidentalOffset];
+        if (!entry || (noteLetterIdx === note.noteLetterIdx && enharmonicOctave === octave) ||
+          Math.abs(getMidiNumber(noteLetterIdx, accidentalOffset, enharmonicOctave) - midi) > 1e-9 ||
+          enharmonics.some(e => e.note === entry)) {
+          continue;
+        }
+
+        enharmonics.push({ note: entry, octave: enharmonicOctave });
+      }
+    }
+  }
+
+  return enharmonics;
+}
+
+/**
+ * Record for determining the accidentals at any given point 
+ * in the measure.
+ */
+type EffectiveAccidentals = {
+  // Tracks the accidentals determined by the key signature.
+  keySig: KeySigAccidentals;
+  // accidentals in the measure that remain throughout the rest of the measure.
+  accidentalOverrides: AccidentalOverrides;
+  // where the key signature accidentals came from.
+  keySigSource: AccidentalSource | undefined;
+  // where each accidental override came from keyed like accidentalOverrides.
+  overrideSources: { [noteLetterOctave: string]: AccidentalSource };
+  // accidentals with no known semitone offset.  These are not applied to any note.
+  unknownAccidentals: UnknownAccidental[];
+}
+
+/**
+ * Describes where an accidental in effect came from.
+ */
+export type AccidentalSource = {
+  /**
+   * 'keySignature' if from the key signature, 'note' if from an earlier note in the measure, 
+   * or 'tie' if carried over the barline by a tie into the measure.
+   */
+  type: 'keySignature' | 'note' | 'tie',
+
+  /**
+   * For key signature sources, the key signature.
+   */
+  keySignature?: VF.Flow.KeySignature,
+
+  /**
+   * For note and tie sources, the tickable in the measure with the accidental.
+   */
+  tickable?: VF.Flow.Tickable,
+
+  /**
+   * For note and tie sources, the beat of the tickable.
+   */
+  beat?: VF.Flow.Fraction,
+
+  /**
+   * For tie sources, the tie carrying the accidental.
+   */
+  tie?: VF.Flow.StaveTie
+}
+
+/**
+ * An accidental vexflow renders that has no entry in ACCIDENTAL_OFFSETS (i.e. a custom glyph code).
+ */
+export type UnknownAccidental = {
+  /**
+   * The accidental as given to vexflow.
+   */
+  accidental: string,
+
+  /**
+   * The note letter and octave (i.e. C4) for a note accidental or the note letter for 
+   * a key signature alteration.
+   */
+  note: string,
+
+  /**
+   * Where the accidental came from.
+   */
+  source: AccidentalSource
+}
+
+/**
+ * An accidental applied to a note letter and octave at a beat in the measure.
+ */
+type AccidentalEntry = {
+  noteLetterOctave: string,
+  accidental: Accidental,
+  beat: VF.Flow.Fraction,
+  source: AccidentalSource
+}
+
+
+/**
+ * Determines the note and octave based on the center line index on the stave.
+ * 
+ * For instance, if a click happens on the space above center line on a treble
+ * clef, then C5 should be returned.
+ * 
+ * @param noteMap A mapping of note letters to metadata about that note.
+ * @param clef The clef (i.e. 'treble', 'bass', etc. as defined by VF.Flow.clefProperties.values)
+ * @param centerLineOffset The index above or below the center line of the stave.
+ * @param octaveShift If the clef has an octave shift, this is the octave shift.
+ * @param effectiveAccidentals Accidentals based on the key signature and notes with accidentals 
+ * in the measure.  If left undefined, the note returned will have no accidental.
+ * @param options The options providing the A4 reference frequency and temperament.
+ * @returns The note and octave corresponding to the click.
+ */
+function getNoteAndOctave(
+  noteMap: NoteMapping,
+  clef: string,
+  centerLineOffset: number,
+  octaveShift: number = 0,
+  effectiveAccidentals: EffectiveAccidentals | undefined,
+  options: ScoreMouseEventOptions = {}):
+  NoteAndOctave | undefined {
+
+  let clefLineShift = VF.Flow.clefProperties(clef).line_shift;
+  let lineShiftOffset = centerLineOffset - clefLineShift * 2 - 1;
+  let octave = 5 - octaveShift;
+  while (lineShiftOffset < 0) {
+    lineShiftOffset += 7;
+    octave -= 1;
+  }
+
+  while (lineShiftOffset >= 7) {
+    lineShiftOffset -= 7;
+    octave += 1;
+  }
+
+
+  let noteLetterMap = noteMap[lineShiftOffset]
+  if (!noteLetterMap)
+    return undefined;
+
+  let noteLetter = noteLetterMap.noteLetter;
+  let accidental: Accidental | undefined = undefined;
+  let accidentalOffset = 0;
+  if (effectiveAccidentals) {
+    accidental = effectiveAccidentals.accidentalOverrides[noteLetter + octave];
+    if (!accidental) {
+      accidental = effectiveAccidentals.keySig[noteLetter];
+    }
+
+    if (accidental) {
+      accidentalOffset = getAccidentalOffset(accidental);
+    }
+  }
+
+  let note = noteLetterMap[accidentalOffset];
+  return note && getPitch(noteMap, preserveAccidentalName(note, accidental), octave, options);
+}
+
+/**
+ * Creates the pitch information for a note and octave.
+ * @param noteMap A mapping of note letters to metadata about that note.
+ * @param note The note.
+ * @param octave The octave.
+ * @param options The options providing the A4 reference frequency and temperament.
+ * @returns The note and octave with the MIDI number, frequency and enharmonics.
+ */
+function getPitch(noteMap: NoteMapping, note: NoteEntry, octave: number, options: ScoreMouseEventOptions): NoteAndOctave {
+  let accidentalOffset = getAccidentalOffset(note.noteName.accidental);
+  let midi = getMidiNumber(note.noteLetterIdx, accidentalOffset, octave);
+  return {
+    note,
+    octave,
+    cents: accidentalOffset * 100,
+    midi,
+    frequency: getFrequency(midi, options.a4Frequency || DEFAULT_A4_FREQUENCY, options.temperament || EQUAL_TEMPERAMENT),
+    enharmonics: getEnharmonics(noteMap, note, octave)
+  };
+}
+
+/**
+ * Creates the pitch information for a vexflow key (i.e. C#/4).
+ * @param noteMap A mapping of note letters to metadata about that note.
+ * @param key The key.
+ * @param options The options providing the A4 reference frequency and temperament.
+ * @returns The note and octave or undefined if the key cannot be parsed or is not in the note map.
+ */
+function getKeyPitch(noteMap: NoteMapping, key: string, options: ScoreMouseEventOptions): NoteAndOctave | undefined {
+  let parsed = parseNoteAndOctave(key);
+  let note = parsed && noteMap[NOTE_LETTERS.indexOf(parsed.note.noteLetter)]?.[getAccidentalOffset(parsed.note.accidental)];
+  return parsed && note ? getPitch(noteMap, note, parsed.octave, options) : undefined;
+}
+
+/**
+ * The transposition of a stave for a transposing instrument.
+ */
+export type Transposition = {
+  /**
+   * The interval from the written pitch to the concert pitch with a quality of P, M, m, A or d
+   * (i.e. "-M2" for B♭ clarinet, "-P5" for horn in F or "-M6" for alto saxophone).
+   */
+  interval: string,
+
+  /**
+   * Octaves added to the interval (i.e. -1 with "-M2" for tenor saxophone which sounds a major ninth lower).
+   */
+  octave?: number
+};
+
+/**
+ * An interval as the number of note letters and semitones.
+ */
+type Interval = { steps: number, semitones: number };
+
+/**
+ * Parses the interval of a transposition.
+ * @param transposition The transposition.
+ * @returns The interval or undefined if the interval cannot be parsed.
+ */
+function parseInterval(transposition: Transposition): Interval | undefined {
+  let match = transposition.interval.trim().match(/^([+-]?)([PMmAd])(\d+)$/);
+  let num = match ? parseInt(match[3], 10) : 0;
+  if (!match || num < 1) {
+    return undefined;
+  }
+
+  let quality = match[2];
+  let simpleSteps = (num - 1) % 7;
+  let isPerfect = simpleSteps === 0 || simpleSteps === 3 || simpleSteps === 4;
+  let qualityOffsets: { [quality: string]: number } = isPerfect ?
+    { P: 0, A: 1, d: -1 } :
+    { M: 0, m: -1, A: 1, d: -2 };
+
+  if (qualityOffsets[quality] === undefined) {
+    return undefined;
+  }
+
+  let sign = match[1] === "-" ? -1 : 1;
+  let octave = transposition.octave || 0;
+  return {
+    steps: sign * (num - 1) + octave * 7,
+    semitones: sign * (NOTE_LETTER_SEMITONES[simpleSteps] + Math.floor((num - 1) / 7) * 12 + qualityOffsets[quality]) +
+      octave * 12
+  };
+}
+
+/**
+ * Spells a MIDI note number using a note letter and octave if possible.  Otherwise, the closest 
+ * note letter with an accidental in the note map is used.
+ * @param noteMap A mapping of note letters to metadata about that note.
+ * @param midi The MIDI note number.
+ * @param noteLetterIdx The preferred note letter difference from C.
+ * @param octave The octave of the preferred note letter.
+ * @param options The options providing the A4 reference frequency and temperament.
+ * @returns The note and octave or undefined if it cannot be spelled.
+ */
+function spellPitch(noteMap: NoteMapping, midi: number, noteLetterIdx: number, octave: number, options: ScoreMouseEventOptions): NoteAndOctave | undefined {
+  for (let letterDiff of [0, 1, -1, 2, -2]) {
+    let absoluteStep = octave * 7 + noteLetterIdx + letterDiff;
+    let letterIdx = ((absoluteStep % 7) + 7) % 7;
+    let letterOctave = Math.floor(absoluteStep / 7);
+    let accidentalOffset = Object.values(ACCIDENTAL_OFFSETS)
+      .find(offset => Math.abs(getMidiNumber(letterIdx, offset, letterOctave) - midi) < 1e-9);
+
+    let note = accidentalOffset !== undefined ? noteMap[letterIdx]?.[accidentalOffset] : undefined;
+    if (note) {
+      return getPitch(noteMap, note, letterOctave, options);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Transposes a pitch by an interval spelling the result by note letter (i.e. F# down a 
+ * major second is E rather than F♭).
+ * @param noteMap A mapping of note letters to metadata about that note.
+ * @param pitch The pitch.
+ * @param interval The interval.
+ * @param options The options providing the A4 reference frequency and temperament.
+ * @returns The transposed pitch or undefined if it cannot be spelled.
+ */
+function transposePitch(noteMap: NoteMapping, pitch: NoteAndOctave, interval: Interval, options: ScoreMouseEventOptions): NoteAndOctave | undefined {
+  let absoluteStep = pitch.octave * 7 + pitch.note.noteLetterIdx + interval.steps;
+  let transposed = spellPitch(noteMap, pitch.midi + interval.semitones,
+    ((absoluteStep % 7) + 7) % 7, Math.floor(absoluteStep / 7), options);
+
+  if (transposed) {
+    transposed.note = preserveAccidentalName(transposed.note, pitch.note.noteName.accidental);
+  }
+
+  return transposed;
+}
+
+/**
+ * Transposes a key spec by an interval (i.e. D transposed down a major second is C).
+ * @param keySpecStr The key spec.
+ * @param interval The interval.
+ * @returns The transposed key spec or undefined if it cannot be spelled with at most a double sharp or flat.
+ */
+function transposeKeySpec(keySpecStr: string, interval: Interval): string | undefined {
+  let keySpec = parseKeySpec(keySpecStr);
+  if (!keySpec) {
+    return undefined;
+  }
+
+  let tonicLetterIdx = NOTE_LETTERS.indexOf(keySpec.tonic.noteLetter);
+  let letterIdx = (((tonicLetterIdx + interval.steps) % 7) + 7) % 7;
+  let semitones = NOTE_LETTER_SEMITONES[tonicLetterIdx] + getAccidentalOffset(keySpec.tonic.accidental) + interval.semitones;
+  let tonic = spellLetterWithOffset(letterIdx, semitones);
+  return tonic && formatKeySpec({ tonic, modeDegree: keySpec.modeDegree });
+}
+
+/**
+ * Spells a note letter with the accidental that makes it a number of semitones above C.
+ * @param letterIdx The note letter difference from C (i.e. E is 2).
+ * @param semitones The semitones above C in any octave (i.e. Eb would be 3 or 15).
+ * @returns The note or undefined if it cannot be spelled with at most a double sharp or flat.
+ */
+function spellLetterWithOffset(letterIdx: number, semitones: number): Note | undefined {
+  // the difference from the natural note letter normalized to [-6, 6)
+  let offset = ((semitones - NOTE_LETTER_SEMITONES[letterIdx]) % 12 + 18) % 12 - 6;
+  let accidental = ({ [-2]: "bb", [-1]: "b", 0: undefined, 1: "#", 2: "##" } as { [offset: number]: Accidental | undefined })[offset];
+  if (offset !== 0 && !accidental) {
+    return undefined;
+  }
+
+  return { noteLetter: NOTE_LETTERS[letterIdx], accidental };
+}
+
+/**
+ * Names a note from the note map with an accidental sharing its offset, since the note map 
+ * has one accidental per offset (i.e. a Stein quarter tone flat and a koron).
+ * @param note The note from the note map.
+ * @param accidental The accidental the note should keep.
+ * @returns The note named with the accidental or the note itself if the offsets differ.
+ */
+function preserveAccidentalName(note: NoteEntry, accidental: Accidental | undefined): NoteEntry {
+  if (!accidental || note.noteName.accidental === accidental ||
+    getAccidentalOffset(note.noteName.accidental) !== getAccidentalOffset(accidental)) {
+    return note;
+  }
+
+  return { ...note, noteName: { ...note.noteName, accidental } };
+}
+
+/**
+ * Different types of accidentals including the quarter tone (Stein-Zimmermann), 
+ * Persian (sori and koron) and Turkish (bakiye and mücenneb) accidentals vexflow renders.
+ */
+type Accidental = "bb" | "b" | "n" | "#" | "##" |
+  "d" | "db" | "+" | "++" | "k" | "o" | "bs" | "bss" | "+-";
+
+/**
+ * Different note letters.
+ */
+type NoteLetter = "A" | "B" | "C" | "D" | "E" | "F" | "G";
+
+/**
+ * Describes a note with no respect to octave including
+ * the note letter and the accidental.
+ */
+type Note = { noteLetter: NoteLetter, accidental: Accidental | undefined }
+
+/**
+ * A mapping of notes to accidentals representing a key signature
+ * (i.e. Bb keysignature would have a Bb and Eb).
+ */
+type KeySigAccidentals = { [noteLetter: string]: Accidental }
+
+/**
+ * A mapping of notes to accidentals representing measure accidentals.
+ */
+type AccidentalOverrides = { [noteLetter: string]: Accidental }
+
+/**
+ * Parses a note string (i.e. C#) into the relevant note object.
+ * @param noteStr The note string.
+ * @returns The parsed note or undefined if it cannot be parsed.
+ */
+function parseNote(noteStr: string): Note | undefined {
+  let trimmed = noteStr.trim();
+  if (!trimmed || !trimmed.length) {
+    return undefined;
+  } else {
+    let noteLetter = trimmed[0].toUpperCase() as NoteLetter;
+
+    switch (noteLetter) {
+      case 'A':
+      case 'B':
+      case 'C':
+      case 'D':
+      case 'E':
+      case 'F':
+      case 'G':
+        break;
+      default:
+        return undefined;
+    }
+
+    let accidental: Accidental | undefined = undefined;
+    let accidentalStr = trimmed.substring(1);
+    if (accidentalStr.length > 0) {
+      if (!isAccidental(accidentalStr)) {
+        return undefined;
+      }
+
+      accidental = accidentalStr;
+    }
+
+    return {
+      accidental,
+      noteLetter
+    }
+  }
+}
+
+/**
+ * Format a note object into the relevant string (i.e. Bb).
+ * @param note The note object.
+ * @returns The relevant string (i.e. Bb).
+ */
+function formatNote(note: Note): string {
+  return note.noteLetter + (note.accidental || "");
+}
+
+/**
+ * Parses a note string of form C#4 into its constituent parts.
+ * @param noteWithOctave The note string.
+ * @returns The parsed note.
+ */
+function parseNoteAndOctave(noteWithOctave: string): { note: Note, octave: number } | undefined {
+  let pieces = noteWithOctave.split("/");
+  if (pieces.length !== 2) {
+    return undefined;
+  }
+
+  let note = parseNote(pieces[0]);
+  let octave = parseInt(pieces[1], 10);
+  return (note && octave && !isNaN(octave))
+    ? { note, octave }
+    : undefined;
+}
+
+/**
+ * Accidentals for each key signature.
+ */
+const KEY_SIGNATURE_ACCIDENTALS: { [key: string]: string[] } = {
+  "C": [],
+  "Am": [],
+
+  "G": ["F#"],
+  "D": ["F#", "C#"],
+  "A": ["F#", "C#", "G#"],
+  "E": ["F#", "C#", "G#", "D#"],
+  "B": ["F#", "C#", "G#", "D#", "A#"],
+  "F#": ["F#", "C#", "G#", "D#", "A#", "E#"],
+  "C#": ["F#", "C#", "G#", "D#", "A#", "E#", "B#"],
+
+  "Em": ["F#"],
+  "Bm": ["F#", "C#"],
+  "F#m": ["F#", "C#", "G#"],
+  "C#m": ["F#", "C#", "G#", "D#"],
+  "G#m": ["F#", "C#", "G#", "D#", "A#"],
+  "D#m": ["F#", "C#", "G#", "D#", "A#", "E#"],
+  "A#m": ["F#", "C#", "G#", "D#", "A#", "E#", "B#"],
+
+  "F": ["Bb"],
+  "Bb": ["Bb", "Eb"],
+  "Eb": ["Bb", "Eb", "Ab"],
+  "Ab": ["Bb", "Eb", "Ab", "Db"],
+  "Db": ["Bb", "Eb", "Ab", "Db", "Gb"],
+  "Gb": ["Bb", "Eb", "Ab", "Db", "Gb", "Cb"],
+  "Cb": ["Bb", "Eb", "Ab", "Db", "Gb", "Cb", "Fb"],
+
+  "Dm": ["Bb"],
+  "Gm": ["Bb", "Eb"],
+  "Cm": ["Bb", "Eb", "Ab"],
+  "Fm": ["Bb", "Eb", "Ab", "Db"],
+  "Bbm": ["Bb", "Eb", "Ab", "Db", "Gb"],
+  "Ebm": ["Bb", "Eb", "Ab", "Db", "Gb", "Cb"],
+  "Abm": ["Bb", "Eb", "Ab", "Db", "Gb", "Cb", "Fb"]
+}
+
+/**
+ * The order in which sharps and flats are added to a key signature.
+ */
+const KEY_SIGNATURE_ORDER: { [accidental: string]: NoteLetter[] } = {
+  "#": ["F", "C", "G", "D", "A", "E", "B"],
+  "b": ["B", "E", "A", "D", "G", "C", "F"]
+}
+
+/**
+ * The suffix used for each mode in a key spec indexed by the scale degree
+ * of the major scale the mode starts on (i.e. dorian starts on the second degree).
+ */
+const MODE_SUFFIXES = ["", "dorian", "phrygian", "lydian", "mixolydian", "m", "locrian"];
+
+/**
+ * Maps mode names that may be used in a key spec to the scale degree of the major scale the mode starts on.
+ */
+const MODE_DEGREES: { [mode: string]: number } = {
+  "": 0,
+  "major": 0,
+  "ionian": 0,
+  "dorian": 1,
+  "phrygian": 2,
+  "lydian": 3,
+  "mixolydian": 4,
+  "m": 5,
+  "minor": 5,
+  "aeolian": 5,
+  "locrian": 6
+}
+
+/**
+ * Semitones from C for each note letter idx (which is also the semitones of each degree of a major scale).
+ */
+const NOTE_LETTER_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+
+/**
+ * The note letters in order from C.
+ */
+const NOTE_LETTERS: NoteLetter[] = ["C", "D", "E", "F", "G", "A", "B"];
+
+/**
+ * A key spec (i.e. F#m) broken into the tonic and the mode.
+ */
+type KeySpec = {
+  /**
+   * The tonic of the key (i.e. F#).
+   */
+  tonic: Note,
+
+  /**
+   * The scale degree of the major scale the mode starts on (i.e. 5 for minor).
+   */
+  modeDegree: number
+}
+
+/**
+ * Parses a key spec such as Bb, F#m or D dorian.
+ * @param keySpec The key spec.
+ * @returns The parsed key spec or undefined if it cannot be parsed.
+ */
+function parseKeySpec(keySpec: string): KeySpec | undefined {
+  let match = keySpec.trim().match(/^([A-Ga-g](?:##|#|bb|b)?)\s*([A-Za-z]*)$/);
+  let tonic = match && parseNote(match[1]);
+  let modeDegree = match ? MODE_DEGREES[match[2].toLowerCase()] : undefined;
+  return (tonic && modeDegree !== undefined) ? { tonic, modeDegree } : undefined;
+}
+
+/**
+ * Formats a key spec into the form used by KEY_SIGNATURE_MAP (i.e. Bb or F#m).
+ * @param keySpec The key spec.
+ * @returns The formatted key spec.
+ */
+function formatKeySpec(keySpec: KeySpec): string {
+  let suffix = MODE_SUFFIXES[keySpec.modeDegree];
+  return formatNote(keySpec.tonic) + (suffix.length > 1 ? " " + suffix : suffix);
+}
+
+/**
+ * Determines the major key sharing the key signature of a key spec (i.e. D dorian => C).
+ * @param keySpec The key spec.
+ * @returns The relative major key or undefined if it cannot be spelled with at most a double sharp or flat.
+ */
+function getRelativeMajor(keySpec: KeySpec): KeySpec | undefined {
+  let tonicLetterIdx = NOTE_LETTERS.indexOf(keySpec.tonic.noteLetter);
+  let letterIdx = (tonicLetterIdx - keySpec.modeDegree + 7) % 7;
+  let semitones = NOTE_LETTER_SEMITONES[tonicLetterIdx] + getAccidentalOffset(keySpec.tonic.accidental) -
+    NOTE_LETTER_SEMITONES[keySpec.modeDegree];
+  let tonic = spellLetterWithOffset(letterIdx, semitones);
+  return tonic && {
+    tonic,
+    modeDegree: 0
+  };
+}
+
+/**
+ * Parses a list of accidental notes (i.e. Bb, Eb) into key signature accidentals.
+ * @param accidentalNotes The notes with accidentals in the key signature.
+ * @returns The key signature accidentals.
+ */
+function parseKeySigAccidentals(accidentalNotes: string[]): KeySigAccidentals {
+  let accidentalMap: KeySigAccidentals = {};
+  for (let accidentalNoteStr of accidentalNotes) {
+    let accidentalNote = parseNote(accidentalNoteStr);
+    if (accidentalNote && accidentalNote.accidental) {
+      accidentalMap[accidentalNote?.noteLetter as string] = accidentalNote.accidental;
+    }
+  }
+  return accidentalMap;
+}
+
+/**
+ * Creates a mapping of key signature to the note accidentals in that key signature.
+ * @param keySigs The key signatures mapping the key signature (Bb) to the accidentals (Bb, Eb)
+ * @returns The mapping of keys to accidentals in that key.
+ */
+function _convertToMap(keySigs: { [note: string]: string[] }): { [note: string]: KeySigAccidentals } {
+  let toRet: { [note: string]: KeySigAccidentals } = {};
+  for (let [keySpecStr, keysStr] of Object.entries(keySigs)) {
+    let keySpec = parseKeySpec(keySpecStr);
+    if (keySpec) {
+      toRet[formatKeySpec(keySpec)] = parseKeySigAccidentals(keysStr);
+    }
+  }
+
+  return toRet;
+}
+
+/**
+ * Maps key signatures (i.e. Bb or Gm) to a list of the accidentals in that key signature (Bb, Eb).
+ */
+export const KEY_SIGNATURE_MAP = _convertToMap(KEY_SIGNATURE_ACCIDENTALS);
+
+/**
+ * Custom key signatures mapping a rendered key signature to the notes with accidentals it stands for.  
+ * Vexflow only renders the key specs it knows, so a non-standard key such as D freygish is drawn with 
+ * a known key spec and mapped here by its KeySignature, either a stave modifier or the key signature 
+ * of a KeySigNote (i.e. new Map([[keySig, ["Bb", "Eb", "F#"]]])).
+ */
+export type CustomKeySignatures = Map<VF.Flow.KeySignature, string[]>;
+
+/**
+ * Get the note accidentals for a key spec.  Modes other than major and minor
+ * use the key signature of the relative major.
+ * @param keySpecStr The key spec (i.e. Bb, F#m or D dorian).
+ * @returns The accidentals in the key signature or undefined if the key spec is unknown.
+ */
+function getKeySpecAccidentals(keySpecStr: string): KeySigAccidentals | undefined {
+  let keySpec = parseKeySpec(keySpecStr);
+  if (!keySpec) {
+    return undefined;
+  }
+
+  let relativeMajor = getRelativeMajor(keySpec);
+  return KEY_SIGNATURE_MAP[formatKeySpec(keySpec)] ||
+    (relativeMajor && KEY_SIGNATURE_MAP[formatKeySpec(relativeMajor)]);
+}
+
+/**
+ * Get the note accidentals for the vexflow key signature including any alterations
+ * made with KeySignature.alterKey.
+ * @param keySig The key signature.
+ * @param customKeySignatures Custom key signatures that take precedence over the key spec and its alterations.
+ * @returns The accidentals in the key signature.
+ */
+function getKeySigAccidentals(keySig: VF.Flow.KeySignature, customKeySignatures?: CustomKeySignatures): KeySigAccidentals | undefined {
+  let custom = customKeySignatures?.get(keySig);
+  if (custom) {
+    return parseKeySigAccidentals(custom);
+  }
+
+  let keySpec: string = (keySig as any).keySpec;
+  let accidentals = getKeySpecAccidentals(keySpec);
+  let alterKeySpec: string[] | undefined = (keySig as any).alterKeySpec;
+  let vfKeySpec = (VF.Flow.keySignature as any).keySpecs?.[keySpec];
+  if (!accidentals || !alterKeySpec || !vfKeySpec?.acc) {
+    return accidentals;
+  }
+
+  // alterations replace the accidentals of the key signature one by one in the order they are drawn.
+  let altered: KeySigAccidentals = { ...accidentals };
+  let order = KEY_SIGNATURE_ORDER[vfKeySpec.acc] || [];
+  for (let i = 0; i < Math.min(alterKeySpec.length, vfKeySpec.num); i++) {
+    let alteration = alterKeySpec[i];
+    if (alteration && isAccidental(alteration)) {
+      altered[order[i]] = alteration;
+    }
+  }
+
+  return altered;
+}
+
+/**
+ * Finds the alterations of a vexflow key signature made with KeySignature.alterKey that have no 
+ * known semitone offset.  These are left out of the key signature accidentals.
+ * @param keySig The key signature.
+ * @returns The unknown alterations keyed by the note letter they alter.
+ */
+function getUnknownKeySigAccidentals(keySig: VF.Flow.KeySignature): UnknownAccidental[] {
+  let alterKeySpec: string[] | undefined = (keySig as any).alterKeySpec;
+  let vfKeySpec = (VF.Flow.keySignature as any).keySpecs?.[(keySig as any).keySpec];
+  if (!alterKeySpec || !vfKeySpec?.acc) {
+    return [];
+  }
+
+  let order = KEY_SIGNATURE_ORDER[vfKeySpec.acc] || [];
+  return alterKeySpec
+    .slice(0, vfKeySpec.num)
+    .map((accidental, i) => ({ accidental, note: order[i], source: { type: 'keySignature', keySignature: keySig } } as UnknownAccidental))
+    .filter(({ accidental, note }) => accidental && note && !isAccidental(accidental));
+}
+
+/**
+ * Compares two fractions returning the compare number (i.e. -1 for <, 0 for equal, 1 for >).
+ * @param a The first fraction.
+ * @param b The second fraction.
+ */
+function compareFractions(a: VF.Flow.Fraction, b: VF.Flow.Fraction): number {
+  let difference = (a.clone() as any).subtract(b).numerator as number;
+  return Math.min(1, Math.max(-1, difference));
+}
+
+/**
+ * Parses the keys of a stave note including accidentals attached as modifiers.
+ * @param tickable The tickable.
+ * @returns The parsed note for each key index or an empty list if the tickable is not a stave note.
+ * An accidental modifier with no known semitone offset is returned as the unknown accidental 
+ * and is not applied to the note.
+ */
+function getKeyNotes(tickable: VF.Flow.Tickable): ({ note: Note, octave: number, unknownAccidental?: string } | undefined)[] {
+  if ((tickable as any).getCategory() !== VF.Flow.StaveNote.CATEGORY) {
+    return [];
+  }
+
+  let staveNote = tickable as VF.Flow.StaveNote;
+  let accidentals: { [idx: number]: string } = {};
+  if ((staveNote as any).modifiers) {
+    for (let modifier of (staveNote as any).modifiers) {
+      if (modifier.getCategory() === VF.Flow.Accidental.CATEGORY) {
+        accidentals[modifier.index] = modifier.type;
+      }
+    }
+  }
+
+  return staveNote.getKeys().map((key, idx) => {
+    let parsedNote = parseNoteAndOctave(key);
+    let accidental = accidentals[idx];
+    if (!accidental || !parsedNote || parsedNote.note.accidental) {
+      return parsedNote;
+    } else if (isAccidental(accidental)) {
+      parsedNote.note.accidental = accidental;
+      return parsedNote;
+    } else {
+      return { ...parsedNote, unknownAccidental: accidental };
+    }
+  });
+}
+
+/**
+ * Get the accidentals in the voices.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param voices The voices to iterate through looking for accidentals.
+ * @param stopBeat Accidentals are identified from the beginning of the measure until this beat.
+ * @param startBeat If provided, accidentals before this beat are ignored (i.e. they are cancelled by a key change).
+ * @param carried Accidentals carried into the measure by ties.  These only apply to the tied note 
+ * itself, so they are only included when the tied note is at the stop beat.
+ * @returns all the measure accidentals to be considered and where they came from.
+ */
+function getVoicesAccidentals(
+  lookup: ScoreLookup,
+  voices: VF.Flow.Voice[],
+  stopBeat: VF.Flow.Fraction,
+  startBeat?: VF.Flow.Fraction,
+  carried: AccidentalEntry[] = []): Pick<EffectiveAccidentals, "accidentalOverrides" | "overrideSources" | "unknownAccidentals"> {
+
+  let accidentalMap: AccidentalOverrides = {};
+  let sources: { [noteLetterOctave: string]: AccidentalSource } = {};
+
+  let inRange = ({ beat }: { beat: VF.Flow.Fraction }) => (compareFractions(beat, stopBeat) <= 0 &&
+    (!startBeat || compareFractions(beat, startBeat) >= 0));
+
+  let keyNotes = voices
+    .flatMap(v => lookup.getTickablesAndBeats(v))
+    .filter(inRange)
+    .map(({ tickable, beat }) => ({ tickable, beat, notes: getKeyNotes(tickable) }));
+
+  let unknownAccidentals = keyNotes
+    .flatMap(({ tickable, beat, notes }) => notes
+      .map(note => (note && note.unknownAccidental) ? {
+        accidental: note.unknownAccidental,
+        note: note.note.noteLetter + note.octave,
+        source: { type: 'note', tickable, beat }
+      } as UnknownAccidental : undefined))
+    .filter(entry => entry !== undefined) as UnknownAccidental[];
+
+  let noteEntries = keyNotes
+    .flatMap(({ tickable, beat, notes }) => notes
+      .map(note => (note && note.note.accidental) ? {
+        noteLetterOctave: note.note.noteLetter + note.octave,
+        accidental: note.note.accidental,
+        beat,
+        source: { type: 'note', tickable, beat }
+      } as AccidentalEntry : undefined))
+    .filter(entry => entry !== undefined) as AccidentalEntry[];
+
+  carried
+    .filter(({ beat }) => compareFractions(beat, stopBeat) === 0)
+    .concat(noteEntries)
+    .filter(inRange)
+    .sort((a, b) => compareFractions(a.beat, b.beat))
+    .forEach(({ noteLetterOctave, accidental, source }) => {
+      accidentalMap[noteLetterOctave] = accidental;
+      sources[noteLetterOctave] = source;
+    });
+
+  return { accidentalOverrides: accidentalMap, overrideSources: sources, unknownAccidentals };
+}
+
+/**
+ * Returns all tickables in a system measure along with the index of their stave.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param system The system measure.
+ * @returns The tickables with their beats and stave indices.
+ */
+function getSystemTickables(lookup: ScoreLookup, system: VF.Flow.System): { staveIdx: number, tickAndBeat: TickableAndBeat }[] {
+  return ((system as any)?.parts || []).flatMap((part: any, staveIdx: number) =>
+    (part.voices as VF.Flow.Voice[]).flatMap(voice =>
+      lookup.getTickablesAndBeats(voice).map(tickAndBeat => ({ staveIdx, tickAndBeat }))));
+}
+
+/**
+ * Determines the accidentals carried into a measure by ties from notes in the previous measure.
+ * A tied note keeps the pitch of the note it is tied from, so the accidental of that note
+ * (explicit, from earlier in its measure or from its key signature) applies to the tied note only.
+ * @param lookup The lookup providing key signatures and tickables.
+ * @param systems The systems in the score.
+ * @param measureIdx The index of the measure the ties lead into.
+ * @param keySig The key signature accidentals of the measure.  Carried accidentals matching the
+ * key signature are ignored.
+ * @param options The options providing the ties.
+ * @returns The accidentals carried into the measure.
+ */
+function getTieAccidentals(
+  lookup: ScoreLookup,
+  systems: VF.Flow.System[],
+  measureIdx: number,
+  keySig: KeySigAccidentals,
+  options: ScoreMouseEventOptions): AccidentalEntry[] {
+
+  if (!options.ties || measureIdx < 1 || measureIdx >= systems.length) {
+    return [];
+  }
+
+  let current = getSystemTickables(lookup, systems[measureIdx]);
+  let previous = getSystemTickables(lookup, systems[measureIdx - 1]);
+  let entries: AccidentalEntry[] = [];
+  for (let tie of options.ties) {
+    let { first_note, last_note, first_indices, last_indices } = tie as any;
+    let last = last_note && current.find(item => item.tickAndBeat.tickable === last_note);
+    let first = first_note && previous.find(item => item.tickAndBeat.tickable === first_note);
+    if (!first || !last) {
+      continue;
+    }
+
+    let firstNotes = getKeyNotes(first.tickAndBeat.tickable);
+    let lastNotes = getKeyNotes(last.tickAndBeat.tickable);
+    let firstAccidentals: EffectiveAccidentals | undefined = undefined;
+    (first_indices as number[] || []).forEach((firstIdx, i) => {
+      let firstNote = firstNotes[firstIdx];
+      let lastNote = lastNotes[(last_indices || [])[i]];
+      if (!firstNote || !lastNote || firstNote.unknownAccidental || !first || !last) {
+        return;
+      }
+
+      let accidental = firstNote.note.accidental;
+      if (!accidental) {
+        firstAccidentals = firstAccidentals ||
+          getAccidentals(lookup, systems, first.staveIdx, measureIdx - 1, first.tickAndBeat.beat, options);
+        accidental = firstAccidentals.accidentalOverrides[firstNote.note.noteLetter + firstNote.octave] ||
+          firstAccidentals.keySig[firstNote.note.noteLetter];
+      }
+
+      if (!accidental ||
+        getAccidentalOffset(accidental) === getAccidentalOffset(keySig[lastNote.note.noteLetter])) {
+        return;
+      }
+
+      entries.push({
+        noteLetterOctave: lastNote.note.noteLetter + lastNote.octave,
+        accidental,
+        beat: last.tickAndBeat.beat,
+        source: { type: 'tie', tickable: last.tickAndBeat.tickable, beat: last.tickAndBeat.beat, tie }
+      });
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Returns the key signature modifier of a stave if one exists.
+ * @param stave The stave.
+ * @returns The key signature or undefined if the stave has no key signature.
+ */
+function getStaveKeySignature(stave: VF.Flow.Stave): VF.Flow.KeySignature | undefined {
+  return stave.getModifiers().find(m => m.getCategory() === (VF.Flow.KeySignature as any).CATEGORY) as
+    VF.Flow.KeySignature | undefined;
+}
+
+/**
+ * Walks back through the systems from a measure to find the most recent stave item.
+ * @param systems The systems in the score.
+ * @param staveIdx The index of the stave.
+ * @param measureIdx The index of the measure to start from.
+ * @param getItem Returns the item for a stave or undefined if the stave has none.  
+ * isCurrent is true for the stave in the starting measure.
+ * @returns The most recent item or undefined if none found.
+ */
+function findMostRecent<T>(
+  systems: VF.Flow.System[],
+  staveIdx: number,
+  measureIdx: number,
+  getItem: (stave: VF.Flow.Stave, isCurrent: boolean) => T | undefined): T | undefined {
+
+  for (let idx = Math.min(measureIdx, systems.length - 1); idx >= 0; idx--) {
+    let system = systems[idx];
+    let staveParts = (system as any).parts;
+    if (staveParts.length > staveIdx && staveParts[staveIdx].stave) {
+      let item = getItem(staveParts[staveIdx].stave as VF.Flow.Stave, idx === measureIdx);
+      if (item !== undefined) {
+        return item;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Walks back through the systems to find the key signature in effect for a stave in a measure.
+ * @param systems The systems in the score.
+ * @param staveIdx The index of the stave.
+ * @param measureIdx The index of the measure.
+ * @returns The most recent key signature or undefined if none found.
+ */
+function getEffectiveKeySignature(systems: VF.Flow.System[], staveIdx: number, measureIdx: number): VF.Flow.KeySignature | undefined {
+  return findMostRecent(systems, staveIdx, measureIdx, getStaveKeySignature);
+}
+
+/**
+ * Returns the clef type of a stave clef modifier at a position if one exists.
+ * @param stave The stave.
+ * @param position The stave modifier position (i.e. VF.Flow.StaveModifier.Position.BEGIN).
+ * @returns The clef type (i.e. 'treble') or undefined if the stave has no clef at that position.
+ */
+function getStaveClef(stave: VF.Flow.Stave, position: number): string | undefined {
+  let clef = stave.getModifiers(position, (VF.Flow.Clef as any).CATEGORY)[0] as any;
+  return clef?.type;
+}
+
+/**
+ * Returns the clef in effect at the start of a stave given the clef carried over from previous measures.
+ * @param stave The stave.
+ * @param isCurrent Whether the stave is in the measure being resolved.  If not, a clef 
+ * at the end of the stave takes precedence since it applies to the following measures.
+ * @returns The clef type or undefined if the stave has no clef.
+ */
+function getStaveEffectiveClef(stave: VF.Flow.Stave, isCurrent: boolean): string | undefined {
+  let position = (VF.Flow.StaveModifier as any).Position;
+  return (isCurrent ? undefined : getStaveClef(stave, position.END)) ||
+    getStaveClef(stave, position.BEGIN);
+}
+
+/**
+ * Walks back through the systems to find the clef in effect at the start of a stave in a measure.
+ * @param systems The systems in the score.
+ * @param staveIdx The index of the stave.
+ * @param measureIdx The index of the measure.
+ * @returns The clef type of the most recent clef or undefined if none found.
+ */
+function getEffectiveClef(systems: VF.Flow.System[], staveIdx: number, measureIdx: number): string | undefined {
+  return findMostRecent(systems, staveIdx, measureIdx, getStaveEffectiveClef);
+}
+
+/**
+ * The latest mid-measure clef and key signature changes (ClefNote and KeySigNote tickables) at a beat.
+ */
+type MeasureChanges = {
+  clef: TickableAndBeat | undefined,
+  keySignature: TickableAndBeat | undefined
+};
+
+/**
+ * Returns the x position of a tickable that has been formatted.  Unlike the bounding box, 
+ * this is available for tickables such as ClefNote.
+ * @param tickable The tickable.
+ * @returns The x position or undefined if the tickable has not been formatted.
+ */
+function getTickableX(tickable: VF.Flow.Tickable): number | undefined {
+  let note = tickable as any;
+  return note.getTickContext && note.getTickContext() ? note.getAbsoluteX() : undefined;
+}
+
+/**
+ * Identifies the latest ClefNote and KeySigNote before a point in the voices of a stave.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param voices The voices of the stave.
+ * @param ptX The x coordinate of the point.
+ * @param stopBeat Changes are identified from the beginning of the measure until this beat.  Since
+ * changes take no ticks, changes after this beat are still included if positioned before the point.
+ * @returns The latest clef and key signature changes.
+ */
+function getMeasureChanges(
+  lookup: ScoreLookup,
+  voices: VF.Flow.Voice[],
+  ptX: number,
+  stopBeat: VF.Flow.Fraction | undefined): MeasureChanges {
+
+  let changes: MeasureChanges = { clef: undefined, keySignature: undefined };
+  for (let voice of voices) {
+    for (let item of lookup.getTickablesAndBeats(voice)) {
+      let x = getTickableX(item.tickable);
+      if ((!stopBeat || compareFractions(item.beat, stopBeat) > 0) && (x === undefined || x > ptX)) {
+        break;
+      }
+
+      if (getClefNoteClef(item.tickable) && (!changes.clef || compareFractions(item.beat, changes.clef.beat) >= 0)) {
+        changes.clef = item;
+      }
+
+      if (getKeySigNoteKeySignature(item.tickable) &&
+        (!changes.keySignature || compareFractions(item.beat, changes.keySignature.beat) >= 0)) {
+        changes.keySignature = item;
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Determines the clef and octave shift in effect after a tickable.  The clef of the tickable 
+ * is used unless a mid-measure clef change follows it.  Otherwise, the clef change applies or
+ * the stave's clef if the tickable has no clef or there is no tickable.
+ * @param lookup The lookup providing the clefs of staves.
+ * @param staveIdx The index of the stave.
+ * @param measureIdx The index of the measure.
+ * @param changes The mid-measure changes before the point.
+ * @param tickableBefore The tickable at or before the point.
+ * @returns The clef and the octave shift of the tickable if its clef is used.
+ */
+function getTickableClef(
+  lookup: ScoreLookup,
+  staveIdx: number,
+  measureIdx: number,
+  changes: MeasureChanges,
+  tickableBefore: TickableAndBeat | undefined): { clef: string | undefined, octaveShift: number | undefined } {
+
+  let pitchTick = tickableBefore?.tickable as any;
+  let clefChanged = changes.clef &&
+    (!tickableBefore || compareFractions(changes.clef.beat, tickableBefore.beat) > 0);
+
+  if (!clefChanged && pitchTick && typeof pitchTick.clef === "string") {
+    return { clef: pitchTick.clef, octaveShift: pitchTick.octave_shift };
+  }
+
+  return { clef: changes.clef?.clef || lookup.getClef(staveIdx, measureIdx), octaveShift: undefined };
+}
+
+/**
+ * Get accidentals for a stave in a particular measure in a particular beat.
+ * @param lookup The lookup providing key signatures and tickables.
+ * @param systems The systems in the score.
+ * @param staveIdx The index of the stave.
+ * @param measureIdx The index of the measure.
+ * @param measureBeat The beat in the measure.  If undefined, the point is before any 
+ * tickable in the measure and only the key signature accidentals apply.
+ * @param options The options used to resolve key signatures.
+ * @param keyChange If provided, a mid-measure key signature change that replaces the stave 
+ * key signature and cancels earlier accidentals in the measure.
+ * @returns The accidentals in the key signature and in the measure.
+ */
+function getAccidentals(
+  lookup: ScoreLookup,
+  systems: VF.Flow.System[],
+  staveIdx: number,
+  measureIdx: number,
+  measureBeat: VF.Flow.Fraction | undefined,
+  options: ScoreMouseEventOptions,
+  keyChange?: TickableAndBeat): EffectiveAccidentals {
+
+  let keySigAccidentals: KeySigAccidentals | undefined = undefined;
+  let keySigSource: AccidentalSource | undefined = undefined;
+  let keySigUnknownAccidentals: UnknownAccidental[] = [];
+  let voiceAccidentals: Pick<EffectiveAccidentals, "accidentalOverrides" | "overrideSources" | "unknownAccidentals"> | undefined = undefined;
+  if (systems.length > measureIdx) {
+    let keySignature = keyChange?.keySignature || lookup.getKeySignature(staveIdx, measureIdx);
+    keySigAccidentals = keySignature && getKeySigAccidentals(keySignature, options.keySignatures);
+    keySigSource = keySignature && { type: 'keySignature', keySignature };
+    keySigUnknownAccidentals = keySignature ? getUnknownKeySigAccidentals(keySignature) : [];
+
+    let voices: VF.Flow.Voice[] | undefined = (systems[measureIdx] as any)?.parts?.flatMap((p: any) => p.voices);
+    if (voices && measureBeat) {
+      let carried = getTieAccidentals(lookup, systems, measureIdx, keySigAccidentals || {}, options);
+      voiceAccidentals = getVoicesAccidentals(lookup, voices, measureBeat, keyChange?.beat, carried);
+    }
+  }
+
+  let accidentalOverrides = voiceAccidentals?.accidentalOverrides || {};
+  let overrideSources = voiceAccidentals?.overrideSources || {};
+  let unknownAccidentals = keySigUnknownAccidentals.concat(voiceAccidentals?.unknownAccidentals || []);
+  let keySig = keySigAccidentals || {};
+
+  return {
+    keySig,
+    accidentalOverrides,
+    keySigSource,
+    overrideSources,
+    unknownAccidentals
+  };
+}
+
+
+/**
+ * Represents a mouse event within the context of a score.
+ */
+export type ScoreMouseEvent = {
+  /**
+   * The key signature accidentals and measure accidentals.
+   */
+  accidentals: EffectiveAccidentals | undefined,
+
+  /**
+   * The index of the closest measure.
+   */
+  measureIdx: number | undefined,
+
+  /**
+   * The printed number of the closest measure.
+   */
+  measureNumber: MeasureNumber | undefined,
+
+  /**
+   * The closest system measure object.
+   */
+  closestSystemMeasure: VF.Flow.System | undefined,
+
+  /**
+   * The index of the stave.
+   */
+  closestStaveIdx: number | undefined,
+
+  /**
+   * The closest stave.
+   */
+  closestStave: VF.Flow.Stave | undefined,
+
+  /**
+   * The closest tickable element along with the beam and tuplet it belongs to.
+   */
+  closestTickable: TickableAndBeat | undefined,
+
+  /**
+   * The notehead in the closest tickable that is closest to the mouse position.
+   */
+  closestNoteHead: NoteHeadResult | undefined,
+
+  /**
+   * The closest tickable whose x position is before the mouse x position.
+   */
+  closestTickableBefore: TickableAndBeat | undefined,
+
+  /**
+   * The closest tickables of each voice on the closest stave.
+   */
+  voiceResults: VoiceResult[],
+
+  /**
+   * The index of the voice chosen by the voice policy that the closest tickables are taken from.
+   */
+  primaryVoiceIdx: number | undefined,
+
+  /**
+   * The closest modifier (i.e. an articulation, fingering or annotation) in the measure.
+   */
+  closestModifier: ModifierResult | undefined,
+
+  /**
+   * Whether the mouse is inside, near or outside the closest system measure, stave and tickable.  
+   * The closest items are reported regardless so this distinguishes stray clicks from hits.
+   */
+  status: ScoreHitStatus,
+
+  /**
+   * The element under the mouse (i.e. a note, clef or barline) or an empty target if none.
+   */
+  hitTarget: HitTarget,
+
+  /**
+   * The closest tie or curve from the ties and curves in the options.
+   */
+  closestCurve: CurveResult | undefined,
+
+  /**
+   * The center line offset in the stave.  If on the space above
+   * the center line, 1.  If on the line below -2.
+   */
+  centerLineOffset: number | undefined,
+
+  /**
+   * The clef in effect at the mouse position including mid-measure clef changes.
+   */
+  clef: string | undefined,
+
+  /**
+   * The key signature in effect at the mouse position including mid-measure key changes.
+   */
+  keySignature: VF.Flow.KeySignature | undefined,
+
+  /**
+   * The pitch based on the center line offset.  On a TabStave, this is the pitch of the 
+   * fret on the string under the mouse if a tuning is supplied.  There is no pitch on a 
+   * percussion clef.
+   */
+  effectivePitch: NoteAndOctave | undefined,
+
+  /**
+   * The pitch as written on the stave.  This is the same as effectivePitch.
+   */
+  writtenPitch: NoteAndOctave | undefined,
+
+  /**
+   * The sounding pitch using the transposition of the stave.  If the stave has no 
+   * transposition, this is the written pitch.
+   */
+  concertPitch: NoteAndOctave | undefined,
+
+  /**
+   * The key spec of the key signature at concert pitch (i.e. C for a B♭ clarinet part in D).
+   */
+  concertKeySignature: string | undefined,
+
+  /**
+   * The string and fret under the mouse if the closest stave is a TabStave.
+   */
+  tab: TabResult | undefined,
+
+  /**
+   * The percussion instrument at the center line offset if the clef is a percussion clef.
+   */
+  percussion: PercussionResult | undefined,
+
+  /**
+   * The mouse x position.
+   */
+  mouseX: number,
+
+  /**
+   * The mouse y position.
+   */
+  mouseY: number,
+
+  /**
+   * Information about the pointer that produced the event if provided by a ScoreEventController.
+   */
+  pointer?: PointerInfo
+}
+
+/**
+ * Information about the pointer (mouse, pen or touch) that produced an event.
+ */
+export type PointerInfo = {
+  /**
+   * The id of the pointer.
+   */
+  pointerId: number,
+
+  /**
+   * The type of pointer (i.e. "mouse", "pen" or "touch").
+   */
+  pointerType: string,
+
+  /**
+   * The pressure of the pointer from 0 to 1.
+   */
+  pressure: number,
+
+  /**
+   * The tilt of a pen in degrees along the x axis.
+   */
+  tiltX: number,
+
+  /**
+   * The tilt of a pen in degrees along the y axis.
+   */
+  tiltY: number,
+
+  /**
+   * The point of the pointer before any touch offset or snapping was applied.
+   */
+  rawPoint: Point
+};
+
+
+/**
+ * Options for resolving a score mouse event.
+ */
+export type ScoreMouseEventOptions = {
+  /**
+   * Custom key signatures by the rendered key signature they apply to (i.e. Klezmer modes or 
+   * mixed signatures).  These take precedence over KEY_SIGNATURE_MAP and alterations.
+   */
+  keySignatures?: CustomKeySignatures,
+
+  /**
+   * The ties in the score.  Ties leading into a measure carry the accidental of the 
+   * note they are tied from.
+   */
+  ties?: VF.Flow.StaveTie[],
+
+  /**
+   * The curves (i.e. slurs) in the score.  Curves and ties are hit tested against the paths vexflow draws.
+   */
+  curves?: VF.Flow.Curve[],
+
+  /**
+   * The distance in pixels within which the mouse is near a control handle of a curve.  Defaults to 6.
+   */
+  handleTolerance?: number,
+
+  /**
+   * The policy for choosing the voice the closest tickables are taken from on a stave with 
+   * multiple voices.  Defaults to closest, which takes the closest tickables across all voices.
+   */
+  voicePolicy?: VoicePolicy,
+
+  /**
+   * The number of ledger lines above and below each stave within which the mouse is assigned 
+   * to the stave.  Defaults to 3.
+   */
+  ledgerLines?: LedgerLines,
+
+  /**
+   * If provided, the index of the stave events are assigned to regardless of the mouse 
+   * position when the measure has the stave (i.e. the stave chosen at the start of a drag).
+   */
+  stickyStaveIdx?: number,
+
+  /**
+   * The frequency of A4 in Hz used to determine pitch frequencies.  Defaults to 440.
+   */
+  a4Frequency?: number,
+
+  /**
+   * The temperament used to determine pitch frequencies.  Defaults to EQUAL_TEMPERAMENT.
+   */
+  temperament?: Temperament,
+
+  /**
+   * The tuning of tablature staves as a vexflow Tuning or tuning string (i.e. "standard" or 
+   * "E/5,B/4,G/4,D/4,A/3,E/3").  If supplied, tablature events report the pitch of the fret.
+   */
+  tuning?: string | VF.Flow.Tuning,
+
+  /**
+   * The mapping of positions and noteheads on percussion staves to instruments.  
+   * Defaults to DEFAULT_PERCUSSION_MAP.
+   */
+  percussionMap?: PercussionMap,
+
+  /**
+   * The transpositions of transposing instruments by stave index.
+   */
+  transpositions?: { [staveIdx: number]: Transposition },
+
+  /**
+   * The distances in pixels within which the mouse is near a system, stave or tickable.  
+   * Defaults to DEFAULT_DISTANCE_TOLERANCES.
+   */
+  distanceTolerances?: DistanceTolerances,
+
+  /**
+   * Options for numbering measures as they are printed.
+   */
+  measureNumbering?: MeasureNumbering
+}
+
+/**
+ * Whether the mouse is within an element, within the distance tolerance of it or further away.
+ */
+export type HitStatus = "inside" | "near" | "outside";
+
+/**
+ * The hit status of the mouse at each level of the score.
+ */
+export type ScoreHitStatus = {
+  /**
+   * The status relative to the closest system measure.
+   */
+  system: HitStatus,
+
+  /**
+   * The status relative to the closest stave.
+   */
+  stave: HitStatus,
+
+  /**
+   * The status relative to the closest tickable.
+   */
+  tickable: HitStatus
+};
+
+/**
+ * The distances in pixels within which the mouse is near an element at each level of the score.
+ */
+export type DistanceTolerances = {
+  system?: number,
+  stave?: number,
+  tickable?: number
+};
+
+/**
+ * The default distance tolerances.
+ */
+export const DEFAULT_DISTANCE_TOLERANCES: Required<DistanceTolerances> = { system: 20, stave: 10, tickable: 10 };
+
+/**
+ * Determines the hit status of a point relative to a bounding box.
+ * @param pt The point.
+ * @param boundingBox The bounding box or undefined if there is no element.
+ * @param tolerance The distance within which the point is near.
+ * @returns The hit status.
+ */
+function getHitStatus(pt: Point, boundingBox: BoundingBox | undefined, tolerance: number): HitStatus {
+  let distance = boundingBox ? getDistance(pt, boundingBox) : Infinity;
+  return distance <= 0 ? "inside" : distance <= tolerance ? "near" : "outside";
+}
+
+/**
+ * The string and fret under the mouse in a TabStave.
+ */
+export type TabResult = {
+  /**
+   * The string number where 1 is the top line of the stave.
+   */
+  string: number,
+
+  /**
+   * The fret of the closest TabNote on the string if the TabNote has a position on the string.
+   */
+  fret: number | string | undefined,
+
+  /**
+   * The pitch of the fret on the string using the tuning.  Pitches use the octaves of the tuning 
+   * (vexflow's named tunings are notated an octave above sounding as guitar is written).
+   */
+  pitch: NoteAndOctave | undefined
+};
+
+/**
+ * A percussion instrument with its General MIDI note number.
+ */
+export type PercussionInstrument = { name: string, midi: number };
+
+/**
+ * Maps the position on a percussion stave as a center line offset and the notehead 
+ * shape to an instrument.  Instruments for the "normal" notehead are used for shapes 
+ * without a mapping at that position.
+ */
+export type PercussionMap = { [centerLineOffset: number]: { [noteHeadType: string]: PercussionInstrument } };
+
+/**
+ * A drum kit layout following common drum set notation with General MIDI note numbers.
+ */
+export const DEFAULT_PERCUSSION_MAP: PercussionMap = {
+  [-5]: { normal: { name: "Pedal Hi-Hat", midi: 44 } },
+  [-3]: { normal: { name: "Bass Drum 1", midi: 36 } },
+  [-2]: { normal: { name: "Low Floor Tom", midi: 41 } },
+  [-1]: { normal: { name: "High Floor Tom", midi: 43 } },
+  1: {
+    normal: { name: "Acoustic Snare", midi: 38 },
+    x: { name: "Side Stick", midi: 37 }
+  },
+  2: { normal: { name: "Low-Mid Tom", midi: 47 } },
+  3: { normal: { name: "High Tom", midi: 50 } },
+  4: {
+    normal: { name: "Ride Cymbal 1", midi: 51 },
+    diamond: { name: "Ride Bell", midi: 53 }
+  },
+  5: {
+    normal: { name: "Closed Hi-Hat", midi: 42 },
+    "circle-x": { name: "Open Hi-Hat", midi: 46 }
+  },
+  6: { normal: { name: "Crash Cymbal 1", midi: 49 } }
+};
+
+/**
+ * The percussion instrument at the mouse position on a percussion stave.
+ */
+export type PercussionResult = {
+  /**
+   * The shape of the notehead at the position or "normal" if there is no notehead there.
+   */
+  noteHeadType: NoteHeadType,
+
+  /**
+   * The instrument mapped to the position and notehead if any.
+   */
+  instrument: PercussionInstrument | undefined
+};
+
+/**
+ * Determines the percussion instrument at a position on a percussion stave.
+ * @param stave The stave.
+ * @param closestNoteHead The closest notehead to the point.
+ * @param centerLineOffset The center line offset of the point.
+ * @param options The options providing the percussion map.
+ * @returns The notehead shape and instrument.
+ */
+function getPercussionResult(
+  stave: VF.Flow.Stave,
+  closestNoteHead: NoteHeadResult | undefined,
+  centerLineOffset: number,
+  options: ScoreMouseEventOptions): PercussionResult {
+
+  // the notehead only determines the instrument if it is at the same position as the point
+  let noteHeadBB = closestNoteHead?.boundingBox;
+  let noteHeadType: NoteHeadType = closestNoteHead && noteHeadBB &&
+    getCenterLineOffset(stave, { x: noteHeadBB.x, y: noteHeadBB.y + noteHeadBB.h / 2 }) === centerLineOffset ?
+    closestNoteHead.type :
+    "normal";
+
+  let instruments = (options.percussionMap || DEFAULT_PERCUSSION_MAP)[centerLineOffset];
+  return { noteHeadType, instrument: instruments && (instruments[noteHeadType] || instruments.normal) };
+}
+
+/**
+ * Determines the string and fret under a point in a TabStave.
+ * @param stave The tablature stave.
+ * @param closestTickable The closest tickable to the point.
+ * @param pt The point.
+ * @param noteMap A mapping of notes to their properties used to create the pitch.
+ * @param options The options providing the tuning.
+ * @returns The string, fret and pitch.
+ */
+function getTabResult(
+  stave: VF.Flow.TabStave,
+  closestTickable: TickableAndBeat | undefined,
+  pt: Point,
+  noteMap: NoteMapping | undefined,
+  options: ScoreMouseEventOptions): TabResult {
+
+  let spacing = stave.options.spacing_between_lines_px || 1;
+  let numLines = stave.options.num_lines || 6;
+  let string = Math.min(numLines, Math.max(1, Math.round((pt.y - stave.getYForLine(0)) / spacing) + 1));
+
+  let tabNote = closestTickable?.tickable instanceof VF.Flow.TabNote ? closestTickable.tickable : undefined;
+  let position = tabNote && ((tabNote as any).getPositions() as { str: number, fret: number | string }[])
+    .find(p => Number(p.str) === string);
+  let fret = position?.fret;
+
+  let pitch: NoteAndOctave | undefined = undefined;
+  let tuning = typeof options.tuning === "string" ? new VF.Flow.Tuning(options.tuning) : options.tuning;
+  if (noteMap && tuning && fret !== undefined && !isNaN(parseInt(fret.toString(), 10)) &&
+    string <= (tuning as any).numStrings) {
+    pitch = getKeyPitch(noteMap, tuning.getNoteForFret(fret.toString(), string.toString()), options);
+  }
+
+  return { string, fret, pitch };
+}
+
+/**
+ * Options for numbering measures as they are printed.
+ */
+export type MeasureNumbering = {
+  /**
+   * Whether the first measure is a pickup (anacrusis) numbered one less than the start number.  
+   * Defaults to true if every voice in the first measure is incomplete.
+   */
+  pickup?: boolean,
+
+  /**
+   * The number of the first full measure.  Defaults to 1.
+   */
+  start?: number,
+
+  /**
+   * Printed numbers by measure index.  The following measures continue from the override.
+   */
+  overrides?: { [measureIdx: number]: number }
+};
+
+/**
+ * The printed number of a measure.
+ */
+export type MeasureNumber = {
+  /**
+   * The printed measure number.
+   */
+  number: number,
+
+  /**
+   * Whether the measure is a pickup (anacrusis).
+   */
+  pickup: boolean
+};
+
+/**
+ * Returns whether every voice in a system measure has fewer ticks than its time signature.
+ * @param system The system measure.
+ * @returns True if the measure is incomplete.
+ */
+function isIncompleteMeasure(system: VF.Flow.System): boolean {
+  let voices: VF.Flow.Voice[] = ((system as any)?.parts || []).flatMap((p: any) => p.voices || []);
+  return voices.length > 0 &&
+    voices.every(v => compareFractions(v.getTicksUsed(), v.getTotalTicks()) < 0);
+}
+
+/**
+ * Determines the printed number of a measure.  Measures are numbered consecutively regardless 
+ * of repeats and voltas as they are in printed scores.
+ * @param systems The systems of the score.
+ * @param measureIdx The index of the measure.
+ * @param numbering The numbering options.
+ * @returns The printed number and whether the measure is a pickup.
+ */
+function getMeasureNumber(
+  systems: VF.Flow.System[],
+  measureIdx: number,
+  numbering: MeasureNumbering): MeasureNumber {
+
+  let hasPickup = numbering.pickup !== undefined ?
+    numbering.pickup :
+    systems.length > 0 && isIncompleteMeasure(systems[0]);
+
+  let overrides = numbering.overrides || {};
+  let number = (numbering.start !== undefined ? numbering.start : 1) - (hasPickup ? 1 : 0);
+  for (let idx = 0; idx <= measureIdx; idx++) {
+    number = overrides[idx] !== undefined ? overrides[idx] : (idx > 0 ? number + 1 : number);
+  }
+
+  return { number, pickup: hasPickup && measureIdx === 0 };
+}
+
+/**
+ * Returns the barline types of the staves in a system measure at a position.
+ * @param system The system measure.
+ * @param position The stave modifier position (i.e. VF.Flow.StaveModifier.Position.END).
+ * @returns The barline types.
+ */
+function getSystemBarlineTypes(system: VF.Flow.System | undefined, position: number): number[] {
+  return getSystemStaves(system as VF.Flow.System).flatMap(stave =>
+    stave.getModifiers(position, (VF.Flow.Barline as any).CATEGORY).map(b => (b as any).getType()));
+}
+
+/**
+ * Parses the passes of a volta from its number (i.e. "1., 2." or "1-3").
+ * @param number The number text of the volta.
+ * @returns The passes on which the volta is played.
+ */
+function parseVoltaPasses(number: string): number[] {
+  let passes: number[] = [];
+  for (let part of (number || "").split(",")) {
+    let range = part.match(/(\d+)\s*[-–]\s*(\d+)/);
+    let single = part.match(/\d+/);
+    if (range) {
+      for (let pass = parseInt(range[1]); pass <= parseInt(range[2]); pass++) {
+        passes.push(pass);
+      }
+    } else if (single) {
+      passes.push(parseInt(single[0]));
+    }
+  }
+
+  return passes;
+}
+
+/**
+ * Determines the voltas of each measure from the volta stave modifiers.  A volta begins with 
+ * a numbered BEGIN or BEGIN_END volta and continues through MID voltas until an END volta.
+ * @param systems The systems of the score.
+ * @returns For each measure, the passes of its volta and whether it is the last measure 
+ * of the volta, or undefined if the measure is not in a volta.
+ */
+function getMeasureVoltas(systems: VF.Flow.System[]): ({ passes: number[], isEnd: boolean } | undefined)[] {
+  let types = (VF.Flow.Volta as any).type;
+  let passes: number[] | undefined = undefined;
+  return systems.map(system => {
+    let volta = getSystemStaves(system)
+      .map(stave => stave.getModifiers(undefined, (VF.Flow.Volta as any).CATEGORY)[0] as any)
+      .find(v => v && v.volta !== types.NONE);
+
+    if (!volta) {
+      passes = undefined;
+      return undefined;
+    }
+
+    if (volta.volta === types.BEGIN || volta.volta === types.BEGIN_END || !passes) {
+      passes = parseVoltaPasses(volta.number);
+    }
+
+    let isEnd = volta.volta === types.END || volta.volta === types.BEGIN_END;
+    let result = { passes, isEnd };
+    passes = isEnd ? undefined : passes;
+    return result;
+  });
+}
+
+/**
+ * Determines the number of times a repeated section is played.  The endings of the section are 
+ * the voltas within it and, if the repeat ends in a volta, the voltas directly following it 
+ * (i.e. a "3." ending after a "1., 2." ending).
+ * @param voltas The volta of each measure.
+ * @param repeatStart The index of the first measure of the section.
+ * @param repeatEnd The index of the measure ending with the repeat barline.
+ * @returns The number of passes which is at least 2.
+ */
+function getRepeatPasses(
+  voltas: ({ passes: number[], isEnd: boolean } | undefined)[],
+  repeatStart: number,
+  repeatEnd: number): number {
+
+  let end = repeatEnd;
+  while (voltas[repeatEnd] && voltas[end + 1]) {
+    end++;
+  }
+
+  let passes = voltas.slice(repeatStart, end + 1).flatMap(volta => volta ? volta.passes : []);
+  return Math.max(2, ...passes);
+}
+
+/**
+ * Determines the order in which measures are played by unrolling repeats and voltas.  Each 
+ * repeated section is played twice, or as many times as the highest volta number of its endings, 
+ * and returns to the last begin repeat or the measure after the last completed repeat.  Measures 
+ * in a volta are only played on the passes in its number.
+ * @param systems The systems of the score.
+ * @returns The measure indices in playback order.
+ */
+export function getPlaybackOrder(systems: VF.Flow.System[]): number[] {
+  let { REPEAT_BEGIN, REPEAT_END, REPEAT_BOTH } = (VF.Flow.Barline as any).type;
+  let { BEGIN, END } = (VF.Flow.StaveModifier as any).Position;
+  let isRepeatBegin = (idx: number) =>
+    getSystemBarlineTypes(systems[idx], BEGIN).indexOf(REPEAT_BEGIN) >= 0 ||
+    getSystemBarlineTypes(systems[idx - 1], END).indexOf(REPEAT_BOTH) >= 0;
+  let isRepeatEnd = (idx: number) =>
+    getSystemBarlineTypes(systems[idx], END).some(t => t === REPEAT_END || t === REPEAT_BOTH);
+
+  let voltas = getMeasureVoltas(systems);
+  let order: number[] = [];
+  let repeatStart = 0;
+  let pass = 1;
+  let jumped = false;
+  let idx = 0;
+  while (idx < systems.length) {
+    if (isRepeatBegin(idx) && !jumped) {
+      repeatStart = idx;
+      pass = 1;
+    }
+
+    jumped = false;
+    let volta = voltas[idx];
+    if (volta && volta.passes.length > 0 && volta.passes.indexOf(pass) < 0) {
+      idx++;
+      continue;
+    }
+
+    order.push(idx);
+    if (isRepeatEnd(idx) && pass < getRepeatPasses(voltas, repeatStart, idx)) {
+      pass++;
+      idx = repeatStart;
+      jumped = true;
+      continue;
+    }
+
+    // the section is complete after its last pass or after leaving its final volta
+    if (isRepeatEnd(idx) || (volta && volta.isEnd && !voltas[idx + 1])) {
+      repeatStart = idx + 1;
+      pass = 1;
+    }
+
+    idx++;
+  }
+
+  return order;
+}
+
+/**
+ * Returns the positions in a playback order at which a measure is played.
+ * @param playbackOrder The measure indices in playback order.
+ * @param measureIdx The index of the measure.
+ * @returns The positions in the playback order.
+ */
+function getMeasureOccurrences(playbackOrder: number[], measureIdx: number): number[] {
+  return playbackOrder
+    .map((idx, position) => idx === measureIdx ? position : -1)
+    .filter(position => position >= 0);
+}
+
+/**
+ * Determines the positions in the playback order at which a measure is played after unrolling 
+ * repeats and voltas (i.e. [2, 6] for the third measure of a repeated section).
+ * @param systems The systems of the score.
+ * @param measureIdx The index of the measure.
+ * @returns The positions in the playback order.
+ */
+export function getOccurrences(systems: VF.Flow.System[], measureIdx: number): number[] {
+  return getLinearLookup(systems).getOccurrences(measureIdx);
+}
+
+/**
+ * Lookups used when resolving a score mouse event.  The default lookup scans
+ * the systems linearly while a ScoreHitIndex answers from precomputed structures.
+ */
+type ScoreLookup = {
+  /**
+   * Returns the closest system measure to the point.
+   */
+  getClosestSystemMeasure: (pt: Point) => { idx: number, item: VF.Flow.System } | undefined,
+
+  /**
+   * Returns the stave in a system measure the point is assigned to.
+   */
+  getClosestStave: (measureIdx: number, pt: Point, ledgerLines?: LedgerLines) => { idx: number, item: VF.Flow.Stave } | undefined,
+
+  /**
+   * Returns the tickable before and after the x position in a voice.
+   */
+  getClosestTickables: (voice: VF.Flow.Voice, ptX: number) => TickableAndBeat[],
+
+  /**
+   * Returns the tickables in a voice mapped to their beats.
+   */
+  getTickablesAndBeats: (voice: VF.Flow.Voice) => TickableAndBeat[],
+
+  /**
+   * Returns the key signature in effect for a stave in a measure.
+   */
+  getKeySignature: (staveIdx: number, measureIdx: number) => VF.Flow.KeySignature | undefined,
+
+  /**
+   * Returns the clef in effect at the start of a stave in a measure.
+   */
+  getClef: (staveIdx: number, measureIdx: number) => string | undefined,
+
+  /**
+   * Returns the modifiers of the tickables in a measure with their bounding boxes.
+   */
+  getModifiers: (measureIdx: number) => ModifierResult[],
+
+  /**
+   * Returns the stave furniture (i.e. clefs and barlines) of a measure with their bounding boxes.
+   */
+  getHitTargets: (measureIdx: number) => HitTarget[],
+
+  /**
+   * Returns the measure indices in playback order.
+   */
+  getPlaybackOrder: () => number[],
+
+  /**
+   * Returns the positions in the playback order at which a measure is played.
+   */
+  getOccurrences: (measureIdx: number) => number[],
+
+  /**
+   * Returns the paths of a rendered tie or curve.
+   */
+  getCurvePaths: (curve: VF.Flow.StaveTie | VF.Flow.Curve) => CurvePaths
+}
+
+/**
+ * Returns the staves of a system measure.
+ * @param system The system measure.
+ * @returns The staves in order of the system parts.
+ */
+function getSystemStaves(system: VF.Flow.System): VF.Flow.Stave[] {
+  return ((system as any)?.parts || []).map((p: any) => p.stave as VF.Flow.Stave);
+}
+
+/**
+ * Creates a lookup that scans the systems linearly for each request.
+ * @param systems The systems of the score.
+ * @returns The lookup.
+ */
+function getLinearLookup(systems: VF.Flow.System[]): ScoreLookup {
+  let lookup: ScoreLookup = {
+    getClosestSystemMeasure: (pt) => getClosestSystemMeasure(systems, pt),
+    getClosestStave: (measureIdx, pt, ledgerLines) =>
+      getClosestStaveByBounds(getSystemStaves(systems[measureIdx]).map(getStaveBounds), pt, ledgerLines),
+    getClosestTickables: (voice, ptX) => getClosestTickable(getTickablesAndBeats(voice), ptX),
+    getTickablesAndBeats,
+    getKeySignature: (staveIdx, measureIdx) => getEffectiveKeySignature(systems, staveIdx, measureIdx),
+    getClef: (staveIdx, measureIdx) => getEffectiveClef(systems, staveIdx, measureIdx),
+    getModifiers: (measureIdx) => systems[measureIdx] ? getSystemModifiers(lookup, systems[measureIdx]) : [],
+    getHitTargets: (measureIdx) => systems[measureIdx] ? getSystemHitTargets(lookup, systems[measureIdx]) : [],
+    getPlaybackOrder: () => getPlaybackOrder(systems),
+    getOccurrences: (measureIdx) => getMeasureOccurrences(getPlaybackOrder(systems), measureIdx),
+    getCurvePaths
+  };
+
+  return lookup;
+}
+
+/**
+ * Gets a score mouse event from a mouse point using the provided lookup.
+ * @param systems The systems of the score.
+ * @param lookup The lookup used to locate items in the score.
+ * @param pt The mouse point.
+ * @param noteMap A mapping of notes to their properties using vexflow key properties.
+ * @param fetchAccidentals Whether or not to fetch accidentals.
+ * @param options Options for resolving the event.
+ * @returns A mouse event with score information.
+ */
+function getScoreMouseEventFromLookup(
+  systems: VF.Flow.System[],
+  lookup: ScoreLookup,
+  pt: Point,
+  noteMap: NoteMapping | undefined,
+  fetchAccidentals: boolean,
+  options: ScoreMouseEventOptions): ScoreMouseEvent {
+
+  let sysMeasureResult = lookup.getClosestSystemMeasure(pt);
+
+  let closestSystemMeasure: VF.Flow.System | undefined = undefined;
+  let measureIdx: number | undefined = undefined;
+  let closestStaveIdx: number | undefined = undefined;
+  let closestStave: VF.Flow.Stave | undefined = undefined;
+  let closestTickable: TickableAndBeat | undefined = undefined;
+  let closestTickableBefore: TickableAndBeat | undefined = undefined;
+  let closestNoteHead: NoteHeadResult | undefined = undefined;
+  let closestModifier: ModifierResult | undefined = undefined;
+  let measureNumber: MeasureNumber | undefined = undefined;
+  let voiceResults: VoiceResult[] = [];
+  let primaryVoiceIdx: number | undefined = undefined;
+  let hitTarget: HitTarget = { type: "empty", element: undefined, staveIdx: undefined, boundingBox: undefined };
+  let centerLineOffset: number | undefined = undefined;
+  let effectivePitch: NoteAndOctave | undefined = undefined;
+  let accidentals: EffectiveAccidentals | undefined = undefined;
+  let clef: string | undefined = undefined;
+  let keySignature: VF.Flow.KeySignature | undefined = undefined;
+  let tab: TabResult | undefined = undefined;
+  let percussion: PercussionResult | undefined = undefined;
+  let concertPitch: NoteAndOctave | undefined = undefined;
+  let concertKeySignature: string | undefined = undefined;
+
+  if (sysMeasureResult) {
+    closestSystemMeasure = sysMeasureResult.item;
+    measureIdx = sysMeasureResult.idx;
+
+    measureNumber = getMeasureNumber(systems, measureIdx, options.measureNumbering || {});
+
+    // a sticky stave (i.e. the stave a drag started on) is kept regardless of the position
+    let stickyStave = options.stickyStaveIdx !== undefined ?
+      getSystemStaves(closestSystemMeasure)[options.stickyStaveIdx] :
+      undefined;
+    let staveResult = stickyStave ?
+      { idx: options.stickyStaveIdx as number, item: stickyStave } :
+      lookup.getClosestStave(measureIdx, pt, options.ledgerLines);
+    closestModifier = getClosest(lookup.getModifiers(measureIdx), (modifier) => getDistance(pt, modifier.boundingBox))?.item;
+
+    ({ item: closestStave, idx: closestStaveIdx } =
+      (staveResult) ? staveResult : { item: undefined, idx: undefined });
+
+    if (closestStave && closestStaveIdx !== undefined) {
+      centerLineOffset = getCenterLineOffset(closestStave, pt);
+
+      if ((closestSystemMeasure as any)?.parts?.length > closestStaveIdx) {
+        let voices: VF.Flow.Voice[] = (closestSystemMeasure as any).parts[closestStaveIdx].voices;
+        ({ closestTickable, closestTickableBefore, voiceResults, primaryVoiceIdx } =
+          getClosestTickableResult(lookup, voices, pt, options.voicePolicy));
+        closestNoteHead = closestTickable && getClosestNoteHead(closestTickable.tickable, pt);
+
+        let changes = getMeasureChanges(lookup, voices, pt.x, closestTickableBefore?.beat);
+        keySignature = changes.keySignature?.keySignature || lookup.getKeySignature(closestStaveIdx, measureIdx);
+
+        let octaveShift: number | undefined = undefined;
+        ({ clef, octaveShift } = getTickableClef(lookup, closestStaveIdx, measureIdx, changes, closestTickableBefore));
+
+        if (closestStave instanceof VF.Flow.TabStave) {
+          // staff pitches are meaningless on tablature so the pitch is determined by the string and fret
+          tab = getTabResult(closestStave, closestTickable, pt, noteMap, options);
+          effectivePitch = tab.pitch;
+        } else if (clef === "percussion" && centerLineOffset !== undefined) {
+          // staff pitches are meaningless for drum kits so the instrument is determined instead
+          percussion = getPercussionResult(closestStave, closestNoteHead, centerLineOffset, options);
+        } else if (noteMap && centerLineOffset !== undefined && clef) {
+          accidentals = fetchAccidentals ?
+            getAccidentals(lookup, systems, closestStaveIdx, measureIdx, closestTickableBefore?.beat,
+              options, changes.keySignature) :
+            undefined;
+
+          effectivePitch = getNoteAndOctave(noteMap, clef,
+            centerLineOffset, octaveShift, accidentals, options);
+        }
+
+        let transposition = options.transpositions?.[closestStaveIdx];
+        let interval = transposition && parseInterval(transposition);
+        let keySpec: string | undefined = (keySignature as any)?.keySpec;
+        if (transposition) {
+          // an interval that cannot be parsed leaves the concert pitch unknown
+          concertPitch = interval && effectivePitch && noteMap && transposePitch(noteMap, effectivePitch, interval, options);
+          concertKeySignature = interval && keySpec && transposeKeySpec(keySpec, interval);
+        } else {
+          concertPitch = effectivePitch;
+          concertKeySignature = keySpec;
+        }
+      }
+    }
+
+    hitTarget = getHitTarget(lookup.getHitTargets(measureIdx), closestTickable, closestStaveIdx, pt);
+  }
+
+  let curves: (VF.Flow.StaveTie | VF.Flow.Curve)[] = (options.ties || []);
+  let tolerances = { ...DEFAULT_DISTANCE_TOLERANCES, ...options.distanceTolerances };
+  let closestCurve = getClosestCurve(curves.concat(options.curves || []).map(lookup.getCurvePaths), pt,
+    options.handleTolerance !== undefined ? options.handleTolerance : DEFAULT_HANDLE_TOLERANCE);
+
+  return {
+    accidentals,
+    measureIdx,
+    measureNumber,
+    closestSystemMeasure,
+    closestStaveIdx,
+    closestStave,
+    closestTickable,
+    closestNoteHead,
+    closestTickableBefore,
+    voiceResults,
+    primaryVoiceIdx,
+    closestModifier,
+    hitTarget,
+    status: {
+      system: getHitStatus(pt, closestSystemMeasure && getSystemBoundingBox(closestSystemMeasure), tolerances.system),
+      stave: getHitStatus(pt, closestStave && getStaveBoundingBox(closestStave), tolerances.stave),
+      tickable: getHitStatus(pt, closestTickable && getTickableBoundingBox(closestTickable.tickable), tolerances.tickable)
+    },
+    closestCurve,
+    centerLineOffset,
+    clef,
+    keySignature,
+    effectivePitch,
+    writtenPitch: effectivePitch,
+    concertPitch,
+    concertKeySignature,
+    tab,
+    percussion,
+    mouseX: pt.x,
+    mouseY: pt.y
+  };
+}
+
+/**
+ * Gets a score mouse event from a mouse point and series of system measures.
+ * @param systems The systems of the score.
+ * @param pt The mouse point.
+ * @param noteMap A mapping of notes to their properties using vexflow key properties.
+ * @param fetchAccidentals Whether or not to fetch accidentals.  This may be a costly 
+ * operation since all measures may be searched for key signatures.
+ * @param options Options for resolving the event.
+ * @returns A mouse event with score information.
+ */
+export function getScoreMouseEvent(
+  systems: VF.Flow.System[],
+  pt: Point,
+  noteMap: NoteMapping | undefined = NOTE_MAPPING,
+  fetchAccidentals: boolean = true,
+  options: ScoreMouseEventOptions = {}): ScoreMouseEvent {
+
+  return getScoreMouseEventFromLookup(systems, getLinearLookup(systems), pt, noteMap, fetchAccidentals, options);
+}
+
+/**
+ * A position in the score used to determine where a note would be drawn.
+ */
+export type ScorePosition = {
+  /**
+   * The index of the measure.
+   */
+  measureIdx: number,
+
+  /**
+   * The index of the stave in the measure.
+   */
+  staveIdx: number,
+
+  /**
+   * The beat from the beginning of the measure (i.e. 3/8).
+   */
+  beat: VF.Flow.Fraction,
+
+  /**
+   * The pitch using the vexflow key format (i.e. C#/4).  Only the note letter and 
+   * octave determine the position.
+   */
+  pitch?: string,
+
+  /**
+   * The center line offset used if no pitch is provided.  Defaults to the center line.
+   */
+  centerLineOffset?: number
+};
+
+/**
+ * Returns whether a tickable is a mid-measure clef or key signature change.
+ * @param tickable The tickable.
+ * @returns True if the tickable is a ClefNote or KeySigNote.
+ */
+function isMeasureChange(tickable: VF.Flow.Tickable): boolean {
+  return !!(getClefNoteClef(tickable) || getKeySigNoteKeySignature(tickable));
+}
+
+/**
+ * Returns the latest tickable at or before a beat in the voices of a stave.  Mid-measure 
+ * clef and key signature changes are ignored.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param voices The voices of the stave.
+ * @param beat The beat.
+ * @returns The tickable or undefined if no tickable is at or before the beat.
+ */
+function getTickableAtBeat(lookup: ScoreLookup, voices: VF.Flow.Voice[], beat: VF.Flow.Fraction): TickableAndBeat | undefined {
+  let result: TickableAndBeat | undefined = undefined;
+  for (let voice of voices) {
+    for (let item of lookup.getTickablesAndBeats(voice)) {
+      if (compareFractions(item.beat, beat) > 0) {
+        break;
+      }
+
+      if (!isMeasureChange(item.tickable) && (!result || compareFractions(item.beat, result.beat) > 0)) {
+        result = item;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Determines the x position of a beat in a stave.  A tickable at the beat provides the position.
+ * Otherwise, the position is interpolated between the tickables (or the start and end of the 
+ * stave's note area) surrounding the beat.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param voices The voices of the stave.
+ * @param stave The stave.
+ * @param beat The beat.
+ * @returns The x position.
+ */
+function getBeatX(lookup: ScoreLookup, voices: VF.Flow.Voice[], stave: VF.Flow.Stave, beat: VF.Flow.Fraction): number {
+  let target = beat.value();
+  let before = { beat: 0, x: stave.getNoteStartX() };
+  let after = {
+    beat: Math.max(0, ...voices.map(v => v.getTotalTicks().value() / VF.Flow.RESOLUTION)),
+    x: stave.getNoteEndX()
+  };
+
+  for (let voice of voices) {
+    for (let item of lookup.getTickablesAndBeats(voice)) {
+      let x = getTickableX(item.tickable);
+      if (x === undefined || isMeasureChange(item.tickable)) {
+        continue;
+      }
+
+      let itemBeat = item.beat.value();
+      if (compareFractions(item.beat, beat) === 0) {
+        return x;
+      } else if (itemBeat < target && itemBeat >= before.beat) {
+        before = { beat: itemBeat, x };
+      } else if (itemBeat > target && itemBeat < after.beat) {
+        after = { beat: itemBeat, x };
+      }
+    }
+  }
+
+  if (target >= after.beat) {
+    return after.x;
+  } else if (target <= before.beat || after.beat <= before.beat) {
+    return before.x;
+  }
+
+  return before.x + (after.x - before.x) * (target - before.beat) / (after.beat - before.beat);
+}
+
+/**
+ * Determines the center line offset of a pitch in a clef.  This is the inverse of getNoteAndOctave.
+ * @param clef The clef.
+ * @param noteLetter The note letter.
+ * @param octave The octave.
+ * @param octaveShift The octave shift of the clef (i.e. 1 for treble 8va).
+ * @returns The center line offset.
+ */
+function getPitchCenterLineOffset(clef: string, noteLetter: NoteLetter, octave: number, octaveShift: number = 0): number {
+  let clefLineShift = VF.Flow.clefProperties(clef).line_shift;
+  let lineShiftOffset = (octave - 5 + octaveShift) * 7 + NOTE_LETTERS.indexOf(noteLetter);
+  return lineShiftOffset + clefLineShift * 2 + 1;
+}
+
+/**
+ * Determines the point where a note would be drawn using the provided lookup.
+ * @param systems The systems of the score.
+ * @param lookup The lookup used to locate items in the score.
+ * @param position The position in the score.
+ * @returns The point or undefined if the position is not in the score or the pitch cannot be parsed.
+ */
+function getScorePointFromLookup(systems: VF.Flow.System[], lookup: ScoreLookup, position: ScorePosition): Point | undefined {
+  let { measureIdx, staveIdx, beat } = position;
+  let system = systems[measureIdx];
+  let stave = system && getSystemStaves(system)[staveIdx];
+  if (!stave) {
+    return undefined;
+  }
+
+  let voices: VF.Flow.Voice[] = (system as any).parts[staveIdx].voices || [];
+  let centerLineOffset = position.centerLineOffset || 0;
+  if (position.pitch) {
+    let parsed = parseNoteAndOctave(position.pitch);
+    let changes = getMeasureChanges(lookup, voices, -Infinity, beat);
+    let { clef, octaveShift } = getTickableClef(lookup, staveIdx, measureIdx, changes,
+      getTickableAtBeat(lookup, voices, beat));
+
+    if (!parsed || !clef) {
+      return undefined;
+    }
+
+    centerLineOffset = getPitchCenterLineOffset(clef, parsed.note.noteLetter, parsed.octave, octaveShift);
+  }
+
+  return {
+    x: getBeatX(lookup, voices, stave, beat),
+    y: getCenterLineY(stave, centerLineOffset)
+  };
+}
+
+/**
+ * Determines the point where a note would be drawn given a measure, stave, beat and pitch.  
+ * This is the inverse of getScoreMouseEvent (i.e. for drawing playback cursors).
+ * @param systems The systems of the score.
+ * @param position The position in the score.
+ * @returns The point or undefined if the position is not in the score or the pitch cannot be parsed.
+ */
+export function getScorePoint(systems: VF.Flow.System[], position: ScorePosition): Point | undefined {
+  return getScorePointFromLookup(systems, getLinearLookup(systems), position);
+}
+
+/**
+ * Whether an insertion point starts at an existing tickable, falls within the duration
+ * of an existing tickable or falls where no tickable sounds (after the end of the voices
+ * or within a GhostNote).
+ */
+export type InsertionType = "onset" | "split" | "gap";
+
+/**
+ * Where a new note would be inserted in the score.
+ */
+export type InsertionPoint = {
+  /**
+   * The index of the measure.
+   */
+  measureIdx: number,
+
+  /**
+   * The index of the stave in the measure.
+   */
+  staveIdx: number,
+
+  /**
+   * The beat from the beginning of the measure snapped to the grid or tuplet.
+   */
+  beat: VF.Flow.Fraction,
+
+  /**
+   * The beat interpolated from the point before snapping.
+   */
+  rawBeat: number,
+
+  /**
+   * Whether the insertion would start at an existing tickable, split one or fill a gap.
+   */
+  type: InsertionType,
+
+  /**
+   * The tickable starting at or sounding at the beat.
+   */
+  tickable: TickableAndBeat | undefined,
+
+  /**
+   * The tuplet whose span contains the beat, if any.
+   */
+  tuplet: VF.Flow.Tuplet | undefined
+};
+
+/**
+ * Options for determining an insertion point.
+ */
+export type InsertionPointOptions = {
+  /**
+   * The grid beats are snapped to (i.e. 1/16 for sixteenths or 1/12 for triplet eighths).
+   * Defaults to 1/16.  Within a tuplet, beats snap to the tuplet's notes instead.
+   */
+  grid?: VF.Flow.Fraction
+};
+
+/**
+ * A tickable in a voice along with the beat where it ends.
+ */
+type TickableSpan = { item: TickableAndBeat, end: VF.Flow.Fraction };
+
+/**
+ * Returns the tickables of a voice with the beats where they end, excluding mid-measure changes.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param voice The voice.
+ * @returns The tickables with their end beats.
+ */
+function getTickableSpans(lookup: ScoreLookup, voice: VF.Flow.Voice): TickableSpan[] {
+  let resolution = VF.Flow.RESOLUTION;
+  return lookup.getTickablesAndBeats(voice)
+    .filter(item => !isMeasureChange(item.tickable))
+    .map(item => {
+      let duration = item.tickable.getTicks().clone().divide(resolution, 1);
+      let end = item.beat.clone()
+        .add((duration as any).numerator, (duration as any).denominator)
+        .simplify();
+      return { item, end };
+    });
+}
+
+/**
+ * Determines the beat of an x position in a stave.  This is the inverse of getBeatX,
+ * interpolating between the tickables (or the start and end of the stave's note area)
+ * surrounding the x position.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param voices The voices of the stave.
+ * @param stave The stave.
+ * @param ptX The x position.
+ * @returns The beat as a number.
+ */
+function getXBeat(lookup: ScoreLookup, voices: VF.Flow.Voice[], stave: VF.Flow.Stave, ptX: number): number {
+  let anchors = [{ beat: 0, x: stave.getNoteStartX() }];
+  for (let voice of voices) {
+    for (let item of lookup.getTickablesAndBeats(voice)) {
+      let x = getTickableX(item.tickable);
+      if (x !== undefined && !isMeasureChange(item.tickable)) {
+        anchors.push({ beat: item.beat.value(), x });
+      }
+    }
+  }
+
+  anchors.push({
+    beat: Math.max(0, ...voices.map(v => v.getTotalTicks().value() / VF.Flow.RESOLUTION)),
+    x: stave.getNoteEndX()
+  });
+  anchors.sort((a, b) => a.beat - b.beat || a.x - b.x);
+
+  let before = anchors[0];
+  if (ptX <= before.x) {
+    return before.beat;
+  }
+
+  for (let after of anchors.slice(1)) {
+    if (ptX < after.x) {
+      return after.x > before.x ?
+        before.beat + (after.beat - before.beat) * (ptX - before.x) / (after.x - before.x) :
+        before.beat;
+    }
+
+    before = after;
+  }
+
+  return before.beat;
+}
+
+/**
+ * Snaps a beat to multiples of a step from a starting beat.
+ * @param rawBeat The beat to snap.
+ * @param start The beat where the steps start.
+ * @param step The step.
+ * @param end The latest beat allowed.
+ * @returns The snapped beat.
+ */
+function snapBeat(rawBeat: number, start: VF.Flow.Fraction, step: VF.Flow.Fraction, end: VF.Flow.Fraction): VF.Flow.Fraction {
+  let maxSteps = Math.floor((end.value() - start.value()) / step.value() + 1e-9);
+  let steps = Math.min(maxSteps, Math.max(0, Math.round((rawBeat - start.value()) / step.value())));
+  return start.clone()
+    .add((step as any).numerator * steps, (step as any).denominator)
+    .simplify();
+}
+
+/**
+ * Determines the insertion point using the provided lookup.
+ * @param systems The systems of the score.
+ * @param lookup The lookup used to locate items in the score.
+ * @param pt The mouse point.
+ * @param options Options for snapping the beat.
+ * @returns The insertion point or undefined if no stave is close to the point.
+ */
+function getInsertionPointFromLookup(
+  systems: VF.Flow.System[],
+  lookup: ScoreLookup,
+  pt: Point,
+  options: InsertionPointOptions): InsertionPoint | undefined {
+
+  let sysMeasureResult = lookup.getClosestSystemMeasure(pt);
+  let staveResult = sysMeasureResult && lookup.getClosestStave(sysMeasureResult.idx, pt);
+  if (!sysMeasureResult || !staveResult) {
+    return undefined;
+  }
+
+  let measureIdx = sysMeasureResult.idx;
+  let staveIdx = staveResult.idx;
+  let voices: VF.Flow.Voice[] = (sysMeasureResult.item as any).parts[staveIdx].voices || [];
+  let rawBeat = getXBeat(lookup, voices, staveResult.item, pt.x);
+  let spans = voices.map(voice => getTickableSpans(lookup, voice));
+  let measureEnd = spans
+    .map(voiceSpans => voiceSpans.length ? voiceSpans[voiceSpans.length - 1].end : new VF.Flow.Fraction(0, 1))
+    .reduce((a, b) => compareFractions(a, b) >= 0 ? a : b, new VF.Flow.Fraction(0, 1));
+
+  // within a tuplet, snap to the shortest note of the tuplet rather than the grid
+  let tuplet: VF.Flow.Tuplet | undefined = undefined;
+  let beat: VF.Flow.Fraction | undefined = undefined;
+  for (let voiceSpans of spans) {
+    let tupletSpans = voiceSpans.filter(span => (span.item.tickable as any).tuplet);
+    for (let { item } of tupletSpans) {
+      let thisTuplet = (item.tickable as any).tuplet as VF.Flow.Tuplet;
+      let members = tupletSpans.filter(span => (span.item.tickable as any).tuplet === thisTuplet);
+      let start = members[0].item.beat;
+      let end = members[members.length - 1].end;
+      if (!beat && rawBeat >= start.value() && rawBeat < end.value()) {
+        let step = members
+          .map(span => span.end.clone().subtract((span.item.beat as any).numerator, (span.item.beat as any).denominator))
+          .reduce((a, b) => compareFractions(a, b) <= 0 ? a : b);
+
+        // snapping to the end of the tuplet leaves the tuplet
+        beat = snapBeat(rawBeat, start, step, end);
+        tuplet = compareFractions(beat, end) < 0 ? thisTuplet : undefined;
+      }
+    }
+  }
+
+  if (!beat) {
+    beat = snapBeat(rawBeat, new VF.Flow.Fraction(0, 1), options.grid || new VF.Flow.Fraction(1, 16), measureEnd);
+  }
+
+  // find the tickable starting at the beat or sounding during the beat
+  let type: InsertionType = "gap";
+  let tickable: TickableAndBeat | undefined = undefined;
+  for (let voiceSpans of spans) {
+    for (let { item, end } of voiceSpans) {
+      if (compareFractions(item.beat, beat) > 0 || compareFractions(end, beat) <= 0 ||
+        item.tickable instanceof VF.Flow.GhostNote) {
+        continue;
+      }
+
+      let thisType: InsertionType = compareFractions(item.beat, beat) === 0 ? "onset" : "split";
+      if (!tickable || (type === "split" && thisType === "onset")) {
+        tickable = item;
+        type = thisType;
+      }
+    }
+  }
+
+  return { measureIdx, staveIdx, beat, rawBeat, type, tickable, tuplet };
+}
+
+/**
+ * Determines where a new note would be inserted for a mouse point.  The beat is interpolated 
+ * between the tickables surrounding the point and snapped to a grid.
+ * @param systems The systems of the score.
+ * @param pt The mouse point.
+ * @param options Options for snapping the beat.
+ * @returns The insertion point or undefined if no stave is close to the point.
+ */
+export function getInsertionPoint(
+  systems: VF.Flow.System[],
+  pt: Point,
+  options: InsertionPointOptions = {}): InsertionPoint | undefined {
+
+  return getInsertionPointFromLookup(systems, getLinearLookup(systems), pt, options);
+}
+
+/**
+ * A tickable in a selection along with where it is in the score.
+ */
+export type ScoreSelectionItem = {
+  measureIdx: number,
+  staveIdx: number,
+  voiceIdx: number,
+  tickable: TickableAndBeat
+};
+
+/**
+ * A beat within a measure.
+ */
+export type ScoreTime = { measureIdx: number, beat: VF.Flow.Fraction };
+
+/**
+ * Options for a rectangle or lasso selection.
+ */
+export type SelectionOptions = {
+  /**
+   * If true, the horizontal extent of the selection determines a start and end beat and 
+   * all tickables sounding between those beats are selected in every stave.
+   */
+  timeRange?: boolean
+};
+
+/**
+ * Returns the bounding box containing all points of a polygon.
+ * @param polygon The points of the polygon.
+ * @returns The bounding box.
+ */
+function getPolygonBoundingBox(polygon: Point[]): BoundingBox {
+  let xs = polygon.map(p => p.x);
+  let ys = polygon.map(p => p.y);
+  let x = Math.min(...xs);
+  let y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+/**
+ * Returns whether two bounding boxes overlap.
+ * @param a The first bounding box.
+ * @param b The second bounding box.
+ * @returns True if the bounding boxes overlap or touch.
+ */
+function boundingBoxesIntersect(a: BoundingBox, b: BoundingBox): boolean {
+  return a.x <= b.x + b.w && b.x <= a.x + a.w && a.y <= b.y + b.h && b.y <= a.y + a.h;
+}
+
+/**
+ * Returns whether a point is within a polygon using ray casting.
+ * @param pt The point.
+ * @param polygon The points of the polygon.
+ * @returns True if the point is within the polygon.
+ */
+function isPointInPolygon(pt: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    let a = polygon[i];
+    let b = polygon[j];
+    if ((a.y > pt.y) !== (b.y > pt.y) &&
+      pt.x < (b.x - a.x) * (pt.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Returns whether two line segments cross.
+ * @param a1 The start of the first segment.
+ * @param a2 The end of the first segment.
+ * @param b1 The start of the second segment.
+ * @param b2 The end of the second segment.
+ * @returns True if the segments cross.
+ */
+function segmentsIntersect(a1: Point, a2: Point, b1: Point, b2: Point): boolean {
+  let cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+  let d1 = cross(b1, b2, a1);
+  let d2 = cross(b1, b2, a2);
+  let d3 = cross(a1, a2, b1);
+  let d4 = cross(a1, a2, b2);
+  return ((d1 > 0) !== (d2 > 0)) && ((d3 > 0) !== (d4 > 0));
+}
+
+/**
+ * Returns whether a polygon intersects a bounding box.
+ * @param polygon The points of the polygon.
+ * @param boundingBox The bounding box.
+ * @returns True if the polygon and bounding box overlap.
+ */
+function polygonIntersectsBoundingBox(polygon: Point[], boundingBox: BoundingBox): boolean {
+  let { x, y, w, h } = boundingBox;
+  let corners = [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }];
+  return polygon.some(pt => getDistance(pt, boundingBox) === 0) ||
+    corners.some(pt => isPointInPolygon(pt, polygon)) ||
+    polygon.some((pt, i) => corners.some((corner, j) =>
+      segmentsIntersect(pt, polygon[(i + 1) % polygon.length], corner, corners[(j + 1) % corners.length])));
+}
+
+/**
+ * Orders selected items by measure, then beat, then stave and then voice.
+ * @param items The selected items.
+ * @returns The sorted items.
+ */
+function sortSelection(items: ScoreSelectionItem[]): ScoreSelectionItem[] {
+  return items.sort((a, b) => a.measureIdx - b.measureIdx ||
+    compareFractions(a.tickable.beat, b.tickable.beat) ||
+    a.staveIdx - b.staveIdx ||
+    a.voiceIdx - b.voiceIdx);
+}
+
+/**
+ * Selects the tickables whose bounding box intersects a region.
+ * @param systems The systems of the score.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param bounds The bounding box of the region used to skip systems outside of the region.
+ * @param intersects Returns whether a tickable bounding box intersects the region.
+ * @returns The selected items.
+ */
+function getRegionSelection(
+  systems: VF.Flow.System[],
+  lookup: ScoreLookup,
+  bounds: BoundingBox,
+  intersects: (boundingBox: BoundingBox) => boolean): ScoreSelectionItem[] {
+
+  let items: ScoreSelectionItem[] = [];
+  systems.forEach((system, measureIdx) => {
+    let systemBB = getSystemBoundingBox(system);
+    if (systemBB && !boundingBoxesIntersect(systemBB, bounds)) {
+      return;
+    }
+
+    ((system as any).parts || []).forEach((part: any, staveIdx: number) => {
+      (part.voices || []).forEach((voice: VF.Flow.Voice, voiceIdx: number) => {
+        for (let tickable of lookup.getTickablesAndBeats(voice)) {
+          let boundingBox = getTickableBoundingBox(tickable.tickable);
+          if (boundingBox && intersects(boundingBox)) {
+            items.push({ measureIdx, staveIdx, voiceIdx, tickable });
+          }
+        }
+      });
+    });
+  });
+
+  return sortSelection(items);
+}
+
+/**
+ * Determines the beat of an x position in a system measure using all of its staves.
+ * @param systems The systems of the score.
+ * @param lookup The lookup used to locate items in the score.
+ * @param pt The point.
+ * @returns The beat within the closest measure or undefined if there are no measures.
+ */
+function getScoreTime(systems: VF.Flow.System[], lookup: ScoreLookup, pt: Point): ScoreTime | undefined {
+  let sysMeasureResult = lookup.getClosestSystemMeasure(pt);
+  let stave = sysMeasureResult && getSystemStaves(sysMeasureResult.item)[0];
+  if (!sysMeasureResult || !stave) {
+    return undefined;
+  }
+
+  let voices: VF.Flow.Voice[] = ((sysMeasureResult.item as any).parts || []).flatMap((p: any) => p.voices || []);
+  let rawBeat = getXBeat(lookup, voices, stave, pt.x);
+  return {
+    measureIdx: sysMeasureResult.idx,
+    beat: new VF.Flow.Fraction(Math.round(rawBeat * VF.Flow.RESOLUTION), VF.Flow.RESOLUTION).simplify()
+  };
+}
+
+/**
+ * Compares two score times.
+ * @param a The first time.
+ * @param b The second time.
+ * @returns A negative number if a is before b, a positive number if after and 0 if equal.
+ */
+function compareScoreTimes(a: ScoreTime, b: ScoreTime): number {
+  return a.measureIdx - b.measureIdx || compareFractions(a.beat, b.beat);
+}
+
+/**
+ * Selects the tickables sounding between two beats in all staves using the provided lookup.
+ * @param systems The systems of the score.
+ * @param lookup The lookup providing the tickables and beats of each voice.
+ * @param start The start of the range.
+ * @param end The end of the range.
+ * @returns The selected items.
+ */
+function getTimeRangeSelectionFromLookup(
+  systems: VF.Flow.System[],
+  lookup: ScoreLookup,
+  start: ScoreTime,
+  end: ScoreTime): ScoreSelectionItem[] {
+
+  if (compareScoreTimes(start, end) > 0) {
+    [start, end] = [end, start];
+  }
+
+  let items: ScoreSelectionItem[] = [];
+  for (let measureIdx = Math.max(0, start.measureIdx); measureIdx <= end.measureIdx && measureIdx < systems.length; measureIdx++) {
+    ((systems[measureIdx] as any).parts || []).forEach((part: any, staveIdx: number) => {
+      (part.voices || []).forEach((voice: VF.Flow.Voice, voiceIdx: number) => {
+        for (let span of getTickableSpans(lookup, voice)) {
+          let tickStart = { measureIdx, beat: span.item.beat };
+          let tickEnd = { measureIdx, beat: span.end };
+
+          // tickables starting at the start of the range are selected even if the range is empty
+          if (compareScoreTimes(tickStart, start) === 0 ||
+            (compareScoreTimes(tickStart, end) < 0 && compareScoreTimes(tickEnd, start) > 0)) {
+            items.push({ measureIdx, staveIdx, voiceIdx, tickable: span.item });
+          }
+        }
+      });
+    });
+  }
+
+  return sortSelection(items);
+}
+
+/**
+ * Selects the tickables between the left and right of a region if selecting a time range.
+ * @param systems The systems of the score.
+ * @param lookup The lookup used to locate items in the score.
+ * @param bounds The bounding box of the region.
+ * @returns The selected items.
+ */
+function getBoundsTimeRangeSelection(systems: VF.Flow.System[], lookup: ScoreLookup, bounds: BoundingBox): ScoreSelectionItem[] {
+  let centerY = bounds.y + bounds.h / 2;
+  let start = getScoreTime(systems, lookup, { x: bounds.x, y: centerY });
+  let end = getScoreTime(systems, lookup, { x: bounds.x + bounds.w, y: centerY });
+  return start && end ? getTimeRangeSelectionFromLookup(systems, lookup, start, end) : [];
+}
+
+/**
+ * Selects the tickables intersecting a rectangle using the provided lookup.
+ * @param systems The systems of the score.
+ * @param lookup The lookup used to locate items in the score.
+ * @param rect The rectangle.
+ * @param options Options for the selection.
+ * @returns The selected items.
+ */
+function getRectangleSelectionFromLookup(
+  systems: VF.Flow.System[],
+  lookup: ScoreLookup,
+  rect: BoundingBox,
+  options: SelectionOptions): ScoreSelectionItem[] {
+
+  return options.timeRange ?
+    getBoundsTimeRangeSelection(systems, lookup, rect) :
+    getRegionSelection(systems, lookup, rect, (bb) => boundingBoxesIntersect(rect, bb));
+}
+
+/**
+ * Selects the tickables intersecting a lasso polygon using the provided lookup.
+ * @param systems The systems of the score.
+ * @param lookup The lookup used to locate items in the score.
+ * @param polygon The points of the lasso.
+ * @param options Options for the selection.
+ * @returns The selected items.
+ */
+function getLassoSelectionFromLookup(
+  systems: VF.Flow.System[],
+  lookup: ScoreLookup,
+  polygon: Point[],
+  options: SelectionOptions): ScoreSelectionItem[] {
+
+  if (polygon.length === 0) {
+    return [];
+  }
+
+  let bounds = getPolygonBoundingBox(polygon);
+  return options.timeRange ?
+    getBoundsTimeRangeSelection(systems, lookup, bounds) :
+    getRegionSelection(systems, lookup, bounds, (bb) => polygonIntersectsBoundingBox(polygon, bb));
+}
+
+/**
+ * Selects every tickable whose bounding box intersects a rectangle ordered by measure, 
+ * then beat and then stave.
+ * @param systems The systems of the score.
+ * @param rect The rectangle.
+ * @param options Options for the selection.
+ * @returns The selected items.
+ */
+export function getRectangleSelection(
+  systems: VF.Flow.System[],
+  rect: BoundingBox,
+  options: SelectionOptions = {}): ScoreSelectionItem[] {
+
+  return getRectangleSelectionFromLookup(systems, getLinearLookup(systems), rect, options);
+}
+
+/**
+ * Selects every tickable whose bounding box intersects a freehand lasso polygon ordered by 
+ * measure, then beat and then stave.
+ * @param systems The systems of the score.
+ * @param polygon The points of the lasso.
+ * @param options Options for the selection.
+ * @returns The selected items.
+ */
+export function getLassoSelection(
+  systems: VF.Flow.System[],
+  polygon: Point[],
+  options: SelectionOptions = {}): ScoreSelectionItem[] {
+
+  return getLassoSelectionFromLookup(systems, getLinearLookup(systems), polygon, options);
+}
+
+/**
+ * Selects every tickable sounding between two beats in all staves ordered by measure, 
+ * then beat and then stave.
+ * @param systems The systems of the score.
+ * @param start The start of the range.
+ * @param end The end of the range.
+ * @returns The selected items.
+ */
+export function getTimeRangeSelection(systems: VF.Flow.System[], start: ScoreTime, end: ScoreTime): ScoreSelectionItem[] {
+  return getTimeRangeSelectionFromLookup(systems, getLinearLookup(systems), start, end);
+}
+
+/**
+ * An item placed in a spatial grid along with its index and bounding box.
+ */
+type GridEntry<T> = { idx: number, item: T, boundingBox: BoundingBox };
+
+/**
+ * A uniform grid bucketing items by the cells their bounding boxes overlap.
+ * Used to find the closest item to a point without scanning every item.
+ */
+class SpatialGrid<T> {
+  private cells: { [cellKey: string]: GridEntry<T>[] } = {};
+  private minCol = 0;
+  private maxCol = -1;
+  private minRow = 0;
+  private maxRow = -1;
+
+  /**
+   * @param cellSize The width and height of each grid cell.
+   */
+  constructor(private cellSize: number) { }
+
+  /**
+   * Adds an item to every cell its bounding box overlaps.
+   * @param idx The index of the item.
+   * @param item The item.
+   * @param boundingBox The bounding box of the item.
+   */
+  insert(idx: number, item: T, boundingBox: BoundingBox) {
+    let entry = { idx, item, boundingBox };
+    let startCol = Math.floor(boundingBox.x / this.cellSize);
+    let endCol = Math.floor((boundingBox.x + boundingBox.w) / this.cellSize);
+    let startRow = Math.floor(boundingBox.y / this.cellSize);
+    let endRow = Math.floor((boundingBox.y + boundingBox.h) / this.cellSize);
+
+    if (this.maxCol < this.minCol) {
+      this.minCol = startCol;
+      this.maxCol = endCol;
+      this.minRow = startRow;
+      this.maxRow = endRow;
+    } else {
+      this.minCol = Math.min(this.minCol, startCol);
+      this.maxCol = Math.max(this.maxCol, endCol);
+      this.minRow = Math.min(this.minRow, startRow);
+      this.maxRow = Math.max(this.maxRow, endRow);
+    }
+
+    for (let col = startCol; col <= endCol; col++) {
+      for (let row = startRow; row <= endRow; row++) {
+        let key = col + "," + row;
+        (this.cells[key] = this.cells[key] || []).push(entry);
+      }
+    }
+  }
+
+  /**
+   * Finds the closest item to the point.  Like getClosest, ties are resolved 
+   * in favor of the item with the lowest index.
+   * @param pt The point.
+   * @returns The index of the closest item and the item or undefined if the grid is empty.
+   */
+  getClosest(pt: Point): { idx: number, item: T } | undefined {
+    if (this.maxCol < this.minCol) {
+      return undefined;
+    }
+
+    let col = Math.floor(pt.x / this.cellSize);
+    let row = Math.floor(pt.y / this.cellSize);
+
+    // rings closer than this are entirely outside of the grid
+    let startRing = Math.max(0, this.minCol - col, col - this.maxCol, this.minRow - row, row - this.maxRow);
+    let endRing = Math.max(
+      Math.abs(col - this.minCol), Math.abs(col - this.maxCol),
+      Math.abs(row - this.minRow), Math.abs(row - this.maxRow));
+
+    let closest: GridEntry<T> | undefined = undefined;
+    let distance: number | undefined = undefined;
+    for (let ring = startRing; ring <= endRing; ring++) {
+      for (let cellCol = Math.max(col - ring, this.minCol); cellCol <= Math.min(col + ring, this.maxCol); cellCol++) {
+        let edgeCol = cellCol === col - ring || cellCol === col + ring;
+        let rows = edgeCol ?
+          undefined :
+          [row - ring, row + ring].filter(r => r >= this.minRow && r <= this.maxRow);
+
+        let startRow = rows ? 0 : Math.max(row - ring, this.minRow);
+        let endRow = rows ? rows.length - 1 : Math.min(row + ring, this.maxRow);
+        for (let i = startRow; i <= endRow; i++) {
+          let entries = this.cells[cellCol + "," + (rows ? rows[i] : i)];
+          if (!entries) {
+            continue;
+          }
+
+          for (let entry of entries) {
+            let thisDistance = getDistance(pt, entry.boundingBox);
+            if (distance === undefined || thisDistance < distance ||
+              (thisDistance === distance && closest && entry.idx < closest.idx)) {
+              closest = entry;
+              distance = thisDistance;
+            }
+          }
+        }
+      }
+
+      // anything not yet seen is at least this far away from the point
+      if (distance !== undefined && distance < ring * this.cellSize) {
+        break;
+      }
+    }
+
+    return closest ? { idx: closest.idx, item: closest.item } : undefined;
+  }
+}
+
+/**
+ * Returns the index of the first item in a sorted list where the predicate is true.
+ * The predicate must be false for a prefix of the list and true for the remainder.
+ * @param items The items.
+ * @param predicate The predicate.
+ * @returns The index of the first item satisfying the predicate or the length of the list.
+ */
+function binarySearch<T>(items: T[], predicate: (item: T) => boolean): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    let mid = Math.floor((low + high) / 2);
+    if (predicate(items[mid])) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * The precomputed tickables of a voice.
+ */
+type IndexedVoice = {
+  /**
+   * All tickables in the voice mapped to their beats.
+   */
+  tickablesAndBeats: TickableAndBeat[],
+
+  /**
+   * The tickables with a bounding box and their horizontal bounds.
+   */
+  positioned: { tickAndBeat: TickableAndBeat, left: number, right: number }[],
+
+  /**
+   * Whether the left and right bounds of positioned tickables never decrease.  
+   * If not, lookups fall back to a linear scan.
+   */
+  sorted: boolean
+}
+
+/**
+ * The precomputed bounds of the staves of a system measure.
+ */
+type IndexedSystem = StaveBounds[];
+
+/**
+ * A spatial index of the systems, staves and tickables of a score built once so
+ * that score mouse events can be resolved without scanning the entire score.
+ * The index must be invalidated or rebuilt whenever the score is re-rendered.
+ */
+export class ScoreHitIndex {
+  private systems: VF.Flow.System[];
+  private cellSize: number | undefined;
+  private systemGrid: SpatialGrid<VF.Flow.System> = new SpatialGrid(1);
+  private indexedSystems: IndexedSystem[] = [];
+  private indexedVoices: Map<VF.Flow.Voice, IndexedVoice> = new Map();
+  private keySigs: (VF.Flow.KeySignature | undefined)[][] = [];
+  private clefs: (string | undefined)[][] = [];
+  private modifiers: Map<number, ModifierResult[]> = new Map();
+  private hitTargets: Map<number, HitTarget[]> = new Map();
+  private playbackOrder: number[] | undefined = undefined;
+  private occurrences: Map<number, number[]> = new Map();
+  private curvePaths: Map<VF.Flow.StaveTie | VF.Flow.Curve, CurvePaths> = new Map();
+  private stale = true;
+  private lookup: ScoreLookup;
+
+  /**
+   * @param systems The systems of the score.
+   * @param cellSize The size of grid cells used to bucket systems.  Defaults to 
+   * the average width of the systems.
+   */
+  constructor(systems: VF.Flow.System[], cellSize?: number) {
+    this.systems = systems;
+    this.cellSize = cellSize;
+    this.lookup = {
+      getClosestSystemMeasure: (pt) => this.systemGrid.getClosest(pt),
+      getClosestStave: (measureIdx, pt, ledgerLines) =>
+        getClosestStaveByBounds(this.indexedSystems[measureIdx] || [], pt, ledgerLines),
+      getClosestTickables: (voice, ptX) => this.getClosestTickables(voice, ptX),
+      getTickablesAndBeats: (voice) => this.getIndexedVoice(voice).tickablesAndBeats,
+      getKeySignature: (staveIdx, measureIdx) => this.keySigs[measureIdx]?.[staveIdx],
+      getClef: (staveIdx, measureIdx) => this.clefs[measureIdx]?.[staveIdx],
+      getModifiers: (measureIdx) => this.getModifiers(measureIdx),
+      getHitTargets: (measureIdx) => this.getHitTargets(measureIdx),
+      getPlaybackOrder: () => this.getPlaybackOrder(),
+      getOccurrences: (measureIdx) => this.getCachedOccurrences(measureIdx),
+      getCurvePaths: (curve) => this.getCurvePaths(curve)
+    };
+  }
+
+  /**
+   * Marks the index as stale so that it is rebuilt on the next query.
+   */
+  invalidate() {
+    this.stale = true;
+  }
+
+  /**
+   * Rebuilds the index immediately.
+   * @param systems If provided, the systems replacing the ones currently indexed.
+   */
+  rebuild(systems?: VF.Flow.System[]) {
+    if (systems) {
+      this.systems = systems;
+    }
+
+    let boundingBoxes = this.systems.map(getSystemBoundingBox);
+    let widths = boundingBoxes.filter(bb => bb && bb.w > 0).map(bb => (bb as BoundingBox).w);
+    let cellSize = this.cellSize ||
+      (widths.length ? widths.reduce((a, b) => a + b, 0) / widths.length : 1);
+
+    this.systemGrid = new SpatialGrid(cellSize);
+    this.indexedSystems = [];
+    this.indexedVoices = new Map();
+    this.keySigs = [];
+    this.clefs = [];
+    this.modifiers = new Map();
+    this.hitTargets = new Map();
+    this.playbackOrder = undefined;
+    this.occurrences = new Map();
+    this.curvePaths = new Map();
+
+    let activeKeySigs: (VF.Flow.KeySignature | undefined)[] = [];
+    let activeClefs: (string | undefined)[] = [];
+    this.systems.forEach((system, measureIdx) => {
+      let boundingBox = boundingBoxes[measureIdx];
+      if (boundingBox) {
+        this.systemGrid.insert(measureIdx, system, boundingBox);
+      }
+
+      let staves = getSystemStaves(system);
+      this.indexedSystems.push(staves.map(getStaveBounds));
+
+      staves.forEach((stave, staveIdx) => {
+        let keySig = stave && getStaveKeySignature(stave);
+        if (keySig) {
+          activeKeySigs[staveIdx] = keySig;
+        }
+      });
+      this.keySigs.push(activeKeySigs.slice());
+
+      // the clef at the start of the stave applies to this measure while a clef 
+      // at the end of the stave applies to the following measures.
+      staves.forEach((stave, staveIdx) => {
+        activeClefs[staveIdx] = (stave && getStaveEffectiveClef(stave, true)) || activeClefs[staveIdx];
+      });
+      this.clefs.push(activeClefs.slice());
+      staves.forEach((stave, staveIdx) => {
+        activeClefs[staveIdx] = (stave && getStaveEffectiveClef(stave, false)) || activeClefs[staveIdx];
+      });
+
+      for (let part of (system as any).parts || []) {
+        for (let voice of part.voices || []) {
+          this.getIndexedVoice(voice);
+        }
+      }
+    });
+
+    this.stale = false;
+  }
+
+  /**
+   * Gets a score mouse event from a mouse point, rebuilding the index if it has been invalidated.
+   * @param pt The mouse point.
+   * @param noteMap A mapping of notes to their properties using vexflow key properties.
+   * @param fetchAccidentals Whether or not to fetch accidentals.
+   * @param options Options for resolving the event.
+   * @returns A mouse event with score information.
+   */
+  getScoreMouseEvent(
+    pt: Point,
+    noteMap: NoteMapping | undefined = NOTE_MAPPING,
+    fetchAccidentals: boolean = true,
+    options: ScoreMouseEventOptions = {}): ScoreMouseEvent {
+
+    if (this.stale) {
+      this.rebuild();
+    }
+
+    return getScoreMouseEventFromLookup(this.systems, this.lookup, pt, noteMap, fetchAccidentals, options);
+  }
+
+  /**
+   * Determines the point where a note would be drawn, rebuilding the index if it has been invalidated.
+   * @param position The position in the score.
+   * @returns The point or undefined if the position is not in the score or the pitch cannot be parsed.
+   */
+  getScorePoint(position: ScorePosition): Point | undefined {
+    if (this.stale) {
+      this.rebuild();
+    }
+
+    return getScorePointFromLookup(this.systems, this.lookup, position);
+  }
+
+  /**
+   * Determines the positions in the playback order at which a measure is played, rebuilding the 
+   * index if it has been invalidated.
+   * @param measureIdx The index of the measure.
+   * @returns The positions in the playback order.
+   */
+  getOccurrences(measureIdx: number): number[] {
+    if (this.stale) {
+      this.rebuild();
+    }
+
+    return this.getCachedOccurrences(measureIdx);
+  }
+
+  /**
+   * Determines where a new note would be inserted, rebuilding the index if it has been invalidated.
+   * @param pt The mouse point.
+   * @param options Options for snapping the beat.
+   * @returns The insertion point or undefined if no stave is close to the point.
+   */
+  getInsertionPoint(pt: Point, options: InsertionPointOptions = {}): InsertionPoint | undefined {
+    if (this.stale) {
+      this.rebuild();
+    }
+
+    return getInsertionPointFromLookup(this.systems, this.lookup, pt, options);
+  }
+
+  /**
+   * Selects every tickable intersecting a rectangle, rebuilding the index if it has been invalidated.
+   * @param rect The rectangle.
+   * @param options Options for the selection.
+   * @returns The selected items.
+   */
+  getRectangleSelection(rect: BoundingBox, options: SelectionOptions = {}): ScoreSelectionItem[] {
+    if (this.stale) {
+      this.rebuild();
+    }
+
+    return getRectangleSelectionFromLookup(this.systems, this.lookup, rect, options);
+  }
+
+  /**
+   * Selects every tickable intersecting a lasso polygon, rebuilding the index if it has been invalidated.
+   * @param polygon The points of the lasso.
+   * @param options Options for the selection.
+   * @returns The selected items.
+   */
+  getLassoSelection(polygon: Point[], options: SelectionOptions = {}): ScoreSelectionItem[] {
+    if (this.stale) {
+      this.rebuild();
+    }
+
+    return getLassoSelectionFromLookup(this.systems, this.lookup, polygon, options);
+  }
+
+  /**
+   * Selects every tickable sounding between two beats, rebuilding the index if it has been invalidated.
+   * @param start The start of the range.
+   * @param end The end of the range.
+   * @returns The selected items.
+   */
+  getTimeRangeSelection(start: ScoreTime, end: ScoreTime): ScoreSelectionItem[] {
+    if (this.stale) {
+      this.rebuild();
+    }
+
+    return getTimeRangeSelectionFromLookup(this.systems, this.lookup, start, end);
+  }
+
+  /**
+   * Returns the modifiers of a measure, determining their bounding boxes the first time the measure is queried.
+   * @param measureIdx The index of the measure.
+   * @returns The modifiers with bounding boxes.
+   */
+  private getModifiers(measureIdx: number): ModifierResult[] {
+    let modifiers = this.modifiers.get(measureIdx);
+    if (!modifiers) {
+      modifiers = this.systems[measureIdx] ? getSystemModifiers(this.lookup, this.systems[measureIdx]) : [];
+      this.modifiers.set(measureIdx, modifiers);
+    }
+
+    return modifiers;
+  }
+
+  /**
+   * Returns the stave furniture of a measure, determining their bounding boxes the first time the measure is queried.
+   * @param measureIdx The index of the measure.
+   * @returns The hit targets with bounding boxes.
+   */
+  private getHitTargets(measureIdx: number): HitTarget[] {
+    let hitTargets = this.hitTargets.get(measureIdx);
+    if (!hitTargets) {
+      hitTargets = this.systems[measureIdx] ? getSystemHitTargets(this.lookup, this.systems[measureIdx]) : [];
+      this.hitTargets.set(measureIdx, hitTargets);
+    }
+
+    return hitTargets;
+  }
+
+  /**
+   * Returns the playback order of the measures, unrolling repeats the first time it is queried.
+   * @returns The measure indices in playback order.
+   */
+  private getPlaybackOrder(): number[] {
+    if (!this.playbackOrder) {
+      this.playbackOrder = getPlaybackOrder(this.systems);
+    }
+
+    return this.playbackOrder;
+  }
+
+  /**
+   * Returns the positions in the playback order at which a measure is played, determining them the first time the measure is queried.
+   * @param measureIdx The index of the measure.
+   * @returns The positions in the playback order.
+   */
+  private getCachedOccurrences(measureIdx: number): number[] {
+    let occurrences = this.occurrences.get(measureIdx);
+    if (!occurrences) {
+      occurrences = getMeasureOccurrences(this.getPlaybackOrder(), measureIdx);
+      this.occurrences.set(measureIdx, occurrences);
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Returns the paths of a tie or curve, determining them the first time the curve is queried.
+   * @param curve The tie or curve.
+   * @returns The paths of the curve.
+   */
+  private getCurvePaths(curve: VF.Flow.StaveTie | VF.Flow.Curve): CurvePaths {
+    let paths = this.curvePaths.get(curve);
+    if (!paths) {
+      paths = getCurvePaths(curve);
+      this.curvePaths.set(curve, paths);
+    }
+
+    return paths;
+  }
+
+  /**
+   * Returns the precomputed tickables of a voice, indexing the voice if it has not been seen.
+   * @param voice The voice.
+   * @returns The indexed voice.
+   */
+  private getIndexedVoice(voice: VF.Flow.Voice): IndexedVoice {
+    let indexed = this.indexedVoices.get(voice);
+    if (indexed) {
+      return indexed;
+    }
+
+    let tickablesAndBeats = getTickablesAndBeats(voice);
+    let positioned: IndexedVoice["positioned"] = [];
+    for (let tickAndBeat of tickablesAndBeats) {
+      let boundingBox = getTickableBoundingBox(tickAndBeat.tickable);
+      if (boundingBox) {
+        let left = boundingBox.x;
+        positioned.push({ tickAndBeat, left, right: left + boundingBox.w });
+      }
+    }
+
+    let sorted = positioned.every((item, idx) => idx === 0 ||
+      (item.left >= positioned[idx - 1].left && item.right >= positioned[idx - 1].right));
+
+    indexed = { tickablesAndBeats, positioned, sorted };
+    this.indexedVoices.set(voice, indexed);
+    return indexed;
+  }
+
+  /**
+   * Returns the tickable before and after the x position in a voice using a binary search.
+   * @param voice The voice.
+   * @param ptX The x coordinate of the point.
+   * @returns A list of the closest (at most 2: one before and after) tickables to the point.
+   */
+  private getClosestTickables(voice: VF.Flow.Voice, ptX: number): TickableAndBeat[] {
+    let { tickablesAndBeats, positioned, sorted } = this.getIndexedVoice(voice);
+    if (!sorted) {
+      return getClosestTickable(tickablesAndBeats, ptX);
+    }
+
+    let afterIdx = binarySearch(positioned, item => item.left > ptX);
+    let containingIdx = binarySearch(positioned, item => item.right > ptX);
+    if (containingIdx < afterIdx) {
+      return [positioned[containingIdx].tickAndBeat];
+    }
+
+    return [positioned[afterIdx - 1], positioned[afterIdx]]
+      .filter(item => item !== undefined)
+      .map(item => item.tickAndBeat);
+  }
+}
+
+/**
+ * The client coordinates of a DOM mouse, pointer or touch event.
+ */
+export type ClientPoint = { clientX: number, clientY: number };
+
+/**
+ * The position and size of an element on screen (i.e. from getBoundingClientRect).
+ */
+export type ElementRect = { left: number, top: number, width: number, height: number };
+
+/**
+ * The attributes of an svg element that determine its user space.
+ */
+export type SvgViewport = {
+  /**
+   * The viewBox attribute (i.e. "0 0 500 200").
+   */
+  viewBox?: string | null,
+
+  /**
+   * The preserveAspectRatio attribute.  Defaults to "xMidYMid meet".
+   */
+  preserveAspectRatio?: string | null,
+
+  /**
+   * The width attribute.  Without a viewBox, the user space is stretched from this width
+   * to the width on screen.  Defaults to the width on screen.
+   */
+  width?: number,
+
+  /**
+   * The height attribute.  Without a viewBox, the user space is stretched from this height
+   * to the height on screen.  Defaults to the height on screen.
+   */
+  height?: number
+}
+
+/**
+ * The transform of a canvas context (i.e. from CanvasRenderingContext2D.getTransform()).
+ */
+export type CanvasTransform = { a: number, b: number, c: number, d: number, e: number, f: number };
+
+/**
+ * Returns the bounding client rect of an element with the width and height.
+ * @param element The element.
+ * @returns The left, top, width and height of the element on screen.
+ */
+function getClientRect(element: Element): ElementRect {
+  let rect = element.getBoundingClientRect();
+  return { left: rect.left, top: rect.top, width: rect.width, height: rect.height };
+}
+
+/**
+ * Parses a numeric attribute of an element.
+ * @param element The element.
+ * @param name The name of the attribute.
+ * @returns The number or undefined if the attribute is missing or not a number.
+ */
+function getNumberAttribute(element: Element, name: string): number | undefined {
+  let value = parseFloat(element.getAttribute(name) || "");
+  return isNaN(value) ? undefined : value;
 }
 
 /**
- * Creates a mapping of key signature to the note accidentals in that key signature.
- * @param keySigs The key signatures mapping the key signature (Bb) to the accidentals (Bb, Eb)
- * @returns The mapping of keys to accidentals in that key.
+ * Converts client coordinates to the user space of an svg viewport.  The viewBox and 
+ * preserveAspectRatio (meet and slice) as well as CSS scaling of the element are accounted for.
+ * @param e The client coordinates.
+ * @param rect The position and size of the svg element on screen.
+ * @param viewport The attributes of the svg element.
+ * @returns The point in svg user space.
  */
-function _convertToMap(keySigs: { [note: string]: string[] }): { [note: string]: KeySigAccidentals } {
-  let toRet: { [note: string]: KeySigAccidentals } = {};
-  for (let [noteStr, keysStr] of Object.entries(keySigs)) {
-    let note = parseNote(noteStr);
-    if (note) {
-      let accidentalMap: { [noteLetter: string]: Accidental } = {};
-      for (let accidentalNoteStr of keysStr) {
-        let accidentalNote = parseNote(accidentalNoteStr);
-        if (accidentalNote && accidentalNote.accidental) {
-          accidentalMap[accidentalNote?.noteLetter as string] = accidentalNote.accidental;
-        }
-      }
+export function getViewBoxPoint(e: ClientPoint, rect: ElementRect, viewport: SvgViewport): Point {
+  let viewBox = (viewport.viewBox || "").trim().split(/[\s,]+/).map(parseFloat);
+  let hasViewBox = viewBox.length === 4 && viewBox.every(n => !isNaN(n)) && viewBox[2] > 0 && viewBox[3] > 0;
+  let [vbX, vbY, vbW, vbH] = hasViewBox ?
+    viewBox :
+    [0, 0, viewport.width || rect.width, viewport.height || rect.height];
 
-      toRet[formatNote(note)] = accidentalMap;
-    }
+  let scaleX = vbW ? rect.width / vbW : 1;
+  let scaleY = vbH ? rect.height / vbH : 1;
+  let translateX = 0;
+  let translateY = 0;
+
+  // without a viewBox, the svg is stretched to its size.  Otherwise, it is aligned per preserveAspectRatio.
+  let [align, meetOrSlice] = (viewport.preserveAspectRatio || "xMidYMid meet").trim().split(/\s+/);
+  if (hasViewBox && align !== "none" && scaleX && scaleY) {
+    let scale = meetOrSlice === "slice" ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    let alignFactor = (alignment: string) => alignment === "Min" ? 0 : alignment === "Max" ? 1 : 0.5;
+    translateX = (rect.width - vbW * scale) * alignFactor(align.substring(1, 4));
+    translateY = (rect.height - vbH * scale) * alignFactor(align.substring(5, 8));
+    scaleX = scale;
+    scaleY = scale;
   }
 
-  return toRet;
+  return {
+    x: vbX + (e.clientX - rect.left - translateX) / (scaleX || 1),
+    y: vbY + (e.clientY - rect.top - translateY) / (scaleY || 1)
+  };
 }
 
 /**
- * Maps key signatures (i.e. Bb) to a list of the accidentals in that key signature (Bb, Eb).
+ * Converts client coordinates to the user space of an svg element.
+ * @param e The client coordinates.
+ * @param svg The svg element.
+ * @returns The point in svg user space.
  */
-export const KEY_SIGNATURE_MAP = _convertToMap(KEY_SIGNATURE_ACCIDENTALS);
+function getSvgPoint(e: ClientPoint, svg: Element): Point {
+  return getViewBoxPoint(e, getClientRect(svg), {
+    viewBox: svg.getAttribute("viewBox"),
+    preserveAspectRatio: svg.getAttribute("preserveAspectRatio"),
+    width: getNumberAttribute(svg, "width"),
+    height: getNumberAttribute(svg, "height")
+  });
+}
 
 /**
- * Get the note accidentals for the vexflow key signature.
- * @param keySig The key signature.
- * @returns The accidentals in the key signature.
+ * Converts client coordinates to the drawing coordinates of a canvas.  The CSS size of the 
+ * canvas relative to the size of its backing store and the transform of the context 
+ * (i.e. from context.scale()) are accounted for.
+ * @param e The client coordinates.
+ * @param rect The position and size of the canvas element on screen.
+ * @param backingStore The width and height of the canvas in pixels.
+ * @param transform The transform of the context.  If undefined, the drawing is assumed to be 
+ * scaled by the device pixel ratio.
+ * @param devicePixelRatio The device pixel ratio used when there is no transform.  Defaults to 1.
+ * @returns The point in drawing coordinates.
  */
-function getKeySigAccidentals(keySig: VF.Flow.KeySignature): KeySigAccidentals | undefined {
-  let keyNoteStr = (keySig as any).keySpec;
-  let keyNote = parseNote(keyNoteStr);
-  if (keyNote) {
-    return KEY_SIGNATURE_MAP[formatNote(keyNote)];
-  } else {
-    return undefined;
+export function getBackingStorePoint(
+  e: ClientPoint,
+  rect: ElementRect,
+  backingStore: { width: number, height: number },
+  transform: CanvasTransform | undefined,
+  devicePixelRatio: number = 1): Point {
+
+  let pixelX = (e.clientX - rect.left) * (rect.width ? backingStore.width / rect.width : 1);
+  let pixelY = (e.clientY - rect.top) * (rect.height ? backingStore.height / rect.height : 1);
+  if (!transform) {
+    return { x: pixelX / devicePixelRatio, y: pixelY / devicePixelRatio };
   }
+
+  let { a, b, c, d, e: tx, f: ty } = transform;
+  let det = a * d - b * c;
+  return {
+    x: (d * (pixelX - tx) - c * (pixelY - ty)) / det,
+    y: (a * (pixelY - ty) - b * (pixelX - tx)) / det
+  };
 }
 
 /**
- * Compares two fractions returning the compare number (i.e. -1 for <, 0 for equal, 1 for >).
- * @param a The first fraction.
- * @param b The second fraction.
+ * Converts client coordinates to the drawing coordinates of a canvas.
+ * @param e The client coordinates.
+ * @param canvas The canvas element.
+ * @param context The 2d context of the canvas if available.
+ * @returns The point in drawing coordinates.
  */
-function compareFractions(a: VF.Flow.Fraction, b: VF.Flow.Fraction): number {
-  let difference = (a.clone() as any).subtract(b).numerator as number;
-  return Math.min(1, Math.max(-1, difference));
+function getCanvasPoint(e: ClientPoint, canvas: HTMLCanvasElement, context: any): Point {
+  // vexflow's CanvasContext wraps the native context
+  let nativeContext = context?.vexFlowCanvasContext || context;
+  let transform = nativeContext?.getTransform ? nativeContext.getTransform() : undefined;
+  let ratio = (typeof window !== "undefined" && window.devicePixelRatio) || 1;
+  return getBackingStorePoint(e, getClientRect(canvas), canvas, transform, ratio);
 }
 
 /**
- * Get the accidentals in the voices.
- * @param voices The voices to iterate through looking for accidentals.
- * @param stopBeat Accidentals are identified from the beginning of the measure until this beat.
- * @returns all the measure accidentals to be considered.
+ * Converts the client coordinates of a DOM event to the point getScoreMouseEvent expects.
+ * SVG and Canvas backends are supported including viewBox and CSS scaling as well as 
+ * scaling with context.scale().
+ * @param e The DOM event or client coordinates.
+ * @param target The vexflow renderer or its context.
+ * @returns The point in score coordinates.
  */
-function getVoicesAccidentals(voices: VF.Flow.Voice[], stopBeat: VF.Flow.Fraction): AccidentalOverrides {
-  let accidentalMap: AccidentalOverrides = {};
+export function getEventPoint(e: ClientPoint, target: VF.Flow.Renderer | VF.IRenderContext): Point {
+  let context: any = (target as any).getContext && (target as any).backend !== undefined ?
+    (target as VF.Flow.Renderer).getContext() :
+    target;
 
-  voices
-    .flatMap(v => getTickablesAndBeats(v))
-    .flatMap(({ tickable, beat }) => {
-      if ((tickable as any).getCategory() === VF.Flow.StaveNote.CATEGORY) {
-        let staveNote = tickable as VF.Flow.StaveNote;
-        let accidentals: { [idx: number]: string } = {};
-        if ((staveNote as any).modifiers) {
-          for (let modifier of (staveNote as any).modifiers) {
-            if (modifier.getCategory() === VF.Flow.Accidental.CATEGORY) {
-              accidentals[modifier.index] = modifier.type;
-            }
-          }
-        }
+  if (context?.svg) {
+    return getSvgPoint(e, context.svg);
+  }
 
-        return (tickable as VF.Flow.StaveNote).getKeys()
-          .map((key, idx) => ({ key, beat, accidental: accidentals[idx] }));
+  let canvas = context?.canvas || (target as any).element;
+  if (canvas && typeof canvas.getBoundingClientRect === "function") {
+    return getCanvasPoint(e, canvas, context);
+  }
 
-      } else {
-        return [];
-      }
-    })
-    .map(({ key, beat, accidental }) => {
-      let parsedNote = parseNoteAndOctave(key);
-      if (accidental && parsedNote?.note && !parsedNote.note.accidental) {
-        parsedNote.note.accidental = accidental as Accidental;
-      }
+  return { x: e.clientX, y: e.clientY };
+}
 
-      return { note: parsedNote, beat };
-    })
-    .filter(({ note, beat }) => (note && note.note.accidental && compareFractions(beat, stopBeat) <= 0))
-    .sort((a, b) => compareFractions(a.beat, b.beat))
-    .forEach(({ note }) => {
-      if (!note || !note.note.accidental)
-        return;
+/**
+ * The events emitted by a ScoreEventController.
+ */
+export type ScoreEventType = "tickableenter" | "tickableleave" | "measurechange" | "stavechange" | "pitchchange" | "scoreclick";
 
-      accidentalMap[note.note.noteLetter + note.octave] = note.note.accidental;
-    });
+/**
+ * A listener for ScoreEventController events.
+ * @param event The score mouse event that triggered the event.  When the mouse leaves the 
+ * container, tickableleave provides the last event within the container.
+ * @param previous The score mouse event before this event if any (i.e. the event 
+ * containing the tickable that was left for tickableleave).
+ */
+export type ScoreEventListener = (event: ScoreMouseEvent, previous: ScoreMouseEvent | undefined) => void;
 
-  return accidentalMap;
+/**
+ * Options for a ScoreEventController.
+ */
+export type ScoreEventControllerOptions = {
+  /**
+   * The vexflow renderer or context the score was drawn with.  If provided, points are 
+   * converted using getEventPoint rather than relative to the container.
+   */
+  renderer?: VF.Flow.Renderer | VF.IRenderContext,
+
+  /**
+   * The offset of the score from the top left of the container (i.e. the container padding).
+   * This is ignored if a renderer is provided.
+   */
+  offset?: Point,
+
+  /**
+   * A mapping of notes to their properties using vexflow key properties.
+   */
+  noteMap?: NoteMapping,
+
+  /**
+   * Whether or not to fetch accidentals.  Defaults to true.
+   */
+  fetchAccidentals?: boolean,
+
+  /**
+   * Options for resolving score mouse events.
+   */
+  eventOptions?: ScoreMouseEventOptions,
+
+  /**
+   * The distance in pixels by pointer type within which a point snaps to the closest notehead
+   * so that the pitch resolves to that note (i.e. { touch: 20 } to select existing notes by touch).  
+   * Snapping prevents entering pitches next to an existing note, so it is off by default.
+   */
+  tolerances?: { [pointerType: string]: number },
+
+  /**
+   * An offset added to touch points so that the point used is visible past the finger 
+   * (i.e. { x: 0, y: -40 } for a loupe above the finger).  Defaults to no offset.
+   */
+  touchOffset?: Point,
+
+  /**
+   * The distance in pixels the pointer can move between being pressed and released for the 
+   * release to be a click.  Defaults to 5.
+   */
+  clickTolerance?: number,
+
+  /**
+   * Whether a drag stays on the stave it started on instead of moving to the stave under the pointer.
+   */
+  stickyStave?: boolean
+};
+
+/**
+ * The default distance in pixels the pointer can move for a press and release to be a click.
+ */
+const DEFAULT_CLICK_TOLERANCE = 5;
+
+/**
+ * A multi-touch pinch gesture.
+ */
+export type PinchEvent = {
+  /**
+   * Whether the pinch started, moved or ended.
+   */
+  phase: "start" | "move" | "end",
+
+  /**
+   * The distance between the touches relative to the distance when the pinch started.
+   */
+  scale: number,
+
+  /**
+   * The point between the touches in score coordinates.
+   */
+  center: Point
+};
+
+/**
+ * A listener for pinch gestures.
+ */
+export type PinchListener = (event: PinchEvent) => void;
+
+/**
+ * Returns whether two effective pitches are the same pitch and spelling.
+ * @param a The first pitch.
+ * @param b The second pitch.
+ * @returns True if the pitches are the same.
+ */
+function isSamePitch(a: NoteAndOctave | undefined, b: NoteAndOctave | undefined): boolean {
+  return a === b || (!!a && !!b && a.octave === b.octave && a.midi === b.midi &&
+    formatNote(a.note.noteName) === formatNote(b.note.noteName));
 }
 
 /**
- * Get accidentals for a stave in a particular measure in a particular beat.
- * @param systems The systems in the score.
- * @param staveIdx The index of the stave.
- * @param measureIdx The index of the measure.
- * @param measureBeat The beat in the measure.
- * @returns The accidentals in the key signature and in the measure.
+ * Attaches to a container element and emits events as a pointer (mouse, pen or touch) moves 
+ * through the score.  Each event provides the full score mouse event as well as the previous one.
  */
-function getAccidentals(systems: VF.Flow.System[], staveIdx: number, measureIdx: number, measureBeat: VF.Flow.Fraction): EffectiveAccidentals {
-  let keySigAccidentals: KeySigAccidentals | undefined = undefined;
-  let voiceAccidentals: AccidentalOverrides | undefined = undefined;
-  if (systems.length > measureIdx) {
-    for (let idx = measureIdx; idx >= 0; idx--) {
-      let system = systems[idx];
-      let staveParts = (system as any).parts;
-      if (staveParts.length > staveIdx && staveParts[staveIdx].stave) {
-        let stave = staveParts[staveIdx].stave as VF.Flow.Stave;
-        let keySig = stave.getModifiers().find(m => m.getCategory() === (VF.Flow.KeySignature as any).CATEGORY);
-        if (keySig) {
-          keySigAccidentals = getKeySigAccidentals(keySig as VF.Flow.KeySignature);
-          break;
-        }
+export class ScoreEventController {
+  private container: HTMLElement;
+  private options: ScoreEventControllerOptions;
+  private index: ScoreHitIndex;
+  private listeners: { [type in ScoreEventType]: ScoreEventListener[] } = {
+    tickableenter: [],
+    tickableleave: [],
+    measurechange: [],
+    stavechange: [],
+    pitchchange: [],
+    scoreclick: []
+  };
+  private pinchListeners: PinchListener[] = [];
+  private lastEvent: ScoreMouseEvent | undefined = undefined;
+
+  // the active touches and the pinch between them.  Taps are not reported for touches in a pinch.
+  private touches: { [pointerId: number]: ClientPoint } = {};
+  private pinch: { startDistance: number, scale: number } | undefined = undefined;
+  private pinched = false;
+  private downPointerId: number | undefined = undefined;
+  private downPoint: ClientPoint | undefined = undefined;
+  private downStaveIdx: number | undefined = undefined;
+
+  private onPointerDown = (e: PointerEvent) => {
+    if (e.pointerType === "touch") {
+      this.touches[e.pointerId] = { clientX: e.clientX, clientY: e.clientY };
+      if (Object.keys(this.touches).length > 1) {
+        this.pinched = true;
+        this.updatePinch();
+        return;
       }
     }
 
-    let voices: VF.Flow.Voice[] | undefined = (systems[measureIdx] as any)?.parts?.flatMap((p: any) => p.voices);
-    if (voices) {
-      voiceAccidentals = getVoicesAccidentals(voices, measureBeat);
+    this.downPointerId = e.pointerId;
+    this.downPoint = { clientX: e.clientX, clientY: e.clientY };
+    let event = this.getScoreMouseEvent(e);
+    this.downStaveIdx = this.options.stickyStave ? event.closestStaveIdx : undefined;
+    this.update(event);
+  };
+
+  private onPointerMove = (e: PointerEvent) => {
+    if (this.touches[e.pointerId]) {
+      this.touches[e.pointerId] = { clientX: e.clientX, clientY: e.clientY };
     }
-  }
 
-  let accidentalOverrides = voiceAccidentals || {};
-  let keySig = keySigAccidentals || {};
+    if (this.pinched) {
+      this.updatePinch();
+    } else {
+      this.update(this.getScoreMouseEvent(e));
+    }
+  };
 
-  return {
-    keySig,
-    accidentalOverrides
+  private onPointerUp = (e: PointerEvent) => {
+    let wasPinched = this.pinched;
+    this.removeTouch(e);
+    if (!wasPinched && this.downPointerId === e.pointerId) {
+      let previous = this.lastEvent;
+      let event = this.getScoreMouseEvent(e);
+      this.update(event);
+      if (this.isClick(e)) {
+        this.emit("scoreclick", event, previous);
+      }
+    }
+
+    this.downPointerId = undefined;
+    this.downPoint = undefined;
+    this.downStaveIdx = undefined;
   };
-}
 
+  private onPointerCancel = (e: PointerEvent) => {
+    this.removeTouch(e);
+    this.downPointerId = undefined;
+    this.downPoint = undefined;
+    this.downStaveIdx = undefined;
+  };
+
+  private onPointerLeave = (e: PointerEvent) => {
+    if (!this.touches[e.pointerId]) {
+      this.update(undefined);
+    }
+  };
 
-/**
- * Represents a mouse event within the context of a score.
- */
-export type ScoreMouseEvent = {
   /**
-   * The key signature accidentals and measure accidentals.
+   * @param container The element containing the rendered score.
+   * @param systems The systems of the score.
+   * @param options Options for the controller.
    */
-  accidentals: EffectiveAccidentals | undefined,
+  constructor(container: HTMLElement, systems: VF.Flow.System[], options: ScoreEventControllerOptions = {}) {
+    this.container = container;
+    this.options = options;
+    this.index = new ScoreHitIndex(systems);
+    container.addEventListener("pointerdown", this.onPointerDown);
+    container.addEventListener("pointermove", this.onPointerMove);
+    container.addEventListener("pointerup", this.onPointerUp);
+    container.addEventListener("pointercancel", this.onPointerCancel);
+    container.addEventListener("pointerleave", this.onPointerLeave);
+  }
 
   /**
-   * The index of the closest measure.
+   * Adds a listener for an event.
+   * @param type The event type.
+   * @param listener The listener.
+   * @returns A function that removes the listener.
    */
-  measureIdx: number | undefined,
+  on(type: ScoreEventType, listener: ScoreEventListener): () => void {
+    this.listeners[type].push(listener);
+    return () => this.off(type, listener);
+  }
 
   /**
-   * The closest system measure object.
+   * Removes a listener for an event.
+   * @param type The event type.
+   * @param listener The listener.
    */
-  closestSystemMeasure: VF.Flow.System | undefined,
+  off(type: ScoreEventType, listener: ScoreEventListener) {
+    this.listeners[type] = this.listeners[type].filter(l => l !== listener);
+  }
 
   /**
-   * The index of the stave.
+   * Adds a listener for multi-touch pinch gestures.  Touches in a pinch do not produce score events.
+   * @param listener The listener.
+   * @returns A function that removes the listener.
    */
-  closestStaveIdx: number | undefined,
+  onPinch(listener: PinchListener): () => void {
+    this.pinchListeners.push(listener);
+    return () => {
+      this.pinchListeners = this.pinchListeners.filter(l => l !== listener);
+    };
+  }
 
   /**
-   * The closest stave.
+   * Replaces the systems of the score (i.e. after the score is redrawn).
+   * @param systems The systems of the score.
    */
-  closestStave: VF.Flow.Stave | undefined,
+  setSystems(systems: VF.Flow.System[]) {
+    this.index.rebuild(systems);
+  }
 
   /**
-   * The closest tickable element.
+   * Marks the systems as changed so that they are reindexed on the next event.
    */
-  closestTickable: TickableAndBeat | undefined,
+  invalidate() {
+    this.index.invalidate();
+  }
 
   /**
-   * The closest tickable whose x position is before the mouse x position.
+   * Returns the most recent score mouse event.
+   * @returns The event or undefined if the mouse is not in the container.
    */
-  closestTickableBefore: TickableAndBeat | undefined,
+  getLastEvent(): ScoreMouseEvent | undefined {
+    return this.lastEvent;
+  }
 
   /**
-   * The center line offset in the stave.  If on the space above
-   * the center line, 1.  If on the line below -2.
+   * Removes the listeners from the container.
    */
-  centerLineOffset: number | undefined,
+  detach() {
+    this.container.removeEventListener("pointerdown", this.onPointerDown);
+    this.container.removeEventListener("pointermove", this.onPointerMove);
+    this.container.removeEventListener("pointerup", this.onPointerUp);
+    this.container.removeEventListener("pointercancel", this.onPointerCancel);
+    this.container.removeEventListener("pointerleave", this.onPointerLeave);
+    this.lastEvent = undefined;
+    this.touches = {};
+    this.pinch = undefined;
+    this.pinched = false;
+  }
 
   /**
-   * The pitch based on the center line offset.
+   * Converts client coordinates into a point in the score.
+   * @param e The client coordinates.
+   * @returns The point.
    */
-  effectivePitch: NoteAndOctave | undefined,
+  private getPoint(e: ClientPoint): Point {
+    if (this.options.renderer) {
+      return getEventPoint(e, this.options.renderer);
+    }
+
+    let rect = this.container.getBoundingClientRect();
+    let offset = this.options.offset || { x: 0, y: 0 };
+    return { x: e.clientX - rect.left - offset.x, y: e.clientY - rect.top - offset.y };
+  }
 
   /**
-   * The mouse x position.
+   * Converts a DOM pointer event into a score mouse event.  Touch points are offset and, if a 
+   * tolerance is set for the pointer type, points within it snap to the closest notehead.
+   * @param e The DOM pointer event.
+   * @returns The score mouse event.
    */
-  mouseX: number,
+  private getScoreMouseEvent(e: PointerEvent): ScoreMouseEvent {
+    let rawPoint = this.getPoint(e);
+    let pointerType = e.pointerType || "mouse";
+    let touchOffset = (pointerType === "touch" && this.options.touchOffset) || { x: 0, y: 0 };
+    let pt = { x: rawPoint.x + touchOffset.x, y: rawPoint.y + touchOffset.y };
+
+    // while dragging with a sticky stave, events stay on the stave the drag started on
+    let eventOptions = this.options.eventOptions;
+    if (this.downStaveIdx !== undefined && e.pointerId === this.downPointerId) {
+      eventOptions = { ...eventOptions, stickyStaveIdx: this.downStaveIdx };
+    }
+
+    let getEvent = (point: Point) => this.index.getScoreMouseEvent(point, this.options.noteMap,
+      this.options.fetchAccidentals !== false, eventOptions);
+
+    let event = getEvent(pt);
+    let tolerance = this.options.tolerances?.[pointerType] || 0;
+    let noteHeadBB = event.closestNoteHead?.boundingBox;
+    if (noteHeadBB && tolerance > 0) {
+      let distance = getDistance(pt, noteHeadBB);
+      if (distance > 0 && distance <= tolerance) {
+        event = getEvent({ x: pt.x, y: noteHeadBB.y + noteHeadBB.h / 2 });
+      }
+    }
+
+    event.pointer = {
+      pointerId: e.pointerId,
+      pointerType,
+      pressure: e.pressure,
+      tiltX: e.tiltX,
+      tiltY: e.tiltY,
+      rawPoint
+    };
+
+    return event;
+  }
 
   /**
-   * The mouse y position.
+   * Returns whether a released pointer stayed within the click tolerance of where it was pressed.
+   * @param e The DOM pointer event.
+   * @returns True if the release is a click.
    */
-  mouseY: number
-}
+  private isClick(e: PointerEvent): boolean {
+    let tolerance = this.options.clickTolerance !== undefined ? this.options.clickTolerance : DEFAULT_CLICK_TOLERANCE;
+    return !!this.downPoint &&
+      Math.sqrt(Math.pow(e.clientX - this.downPoint.clientX, 2) + Math.pow(e.clientY - this.downPoint.clientY, 2)) <= tolerance;
+  }
 
+  /**
+   * Removes a touch, ending the pinch when no touches remain in it.
+   * @param e The DOM pointer event.
+   */
+  private removeTouch(e: PointerEvent) {
+    if (!this.touches[e.pointerId]) {
+      return;
+    }
 
-/**
- * Gets a score mouse event from a mouse point and series of system measures.
- * @param systems The systems of the score.
- * @param pt The mouse point.
- * @param noteMap A mapping of notes to their properties using vexflow key properties.
- * @param fetchAccidentals Whether or not to fetch accidentals.  This may be a costly 
- * operation since all measures may be searched for key signatures.
- * @returns A mouse event with score information.
- */
-export function getScoreMouseEvent(
-  systems: VF.Flow.System[],
-  pt: Point,
-  noteMap: NoteMapping | undefined = NOTE_MAPPING,
-  fetchAccidentals: boolean = true): ScoreMouseEvent {
+    delete this.touches[e.pointerId];
+    let remaining = Object.keys(this.touches).length;
+    if (this.pinch && remaining < 2) {
+      let { scale } = this.pinch;
+      this.pinch = undefined;
+      this.emitPinch({ phase: "end", scale, center: this.getPoint(e) });
+    }
 
-  let sysMeasureResult = getClosestSystemMeasure(systems, pt);
+    if (remaining === 0) {
+      this.pinched = false;
+    }
+  }
 
-  let closestSystemMeasure: VF.Flow.System | undefined = undefined;
-  let measureIdx: number | undefined = undefined;
-  let closestStaveIdx: number | undefined = undefined;
-  let closestStave: VF.Flow.Stave | undefined = undefined;
-  let closestTickable: TickableAndBeat | undefined = undefined;
-  let closestTickableBefore: TickableAndBeat | undefined = undefined;
-  let centerLineOffset: number | undefined = undefined;
-  let effectivePitch: NoteAndOctave | undefined = undefined;
-  let accidentals: EffectiveAccidentals | undefined = undefined;
+  /**
+   * Starts or updates the pinch between the first two active touches.
+   */
+  private updatePinch() {
+    let [a, b] = Object.keys(this.touches).map(id => this.touches[Number(id)]);
+    if (!a || !b) {
+      return;
+    }
 
-  if (sysMeasureResult) {
-    closestSystemMeasure = sysMeasureResult.item;
-    measureIdx = sysMeasureResult.idx;
+    let distance = Math.sqrt(Math.pow(a.clientX - b.clientX, 2) + Math.pow(a.clientY - b.clientY, 2));
+    let center = this.getPoint({ clientX: (a.clientX + b.clientX) / 2, clientY: (a.clientY + b.clientY) / 2 });
+    if (!this.pinch) {
+      this.pinch = { startDistance: distance || 1, scale: 1 };
+      this.emitPinch({ phase: "start", scale: 1, center });
+    } else {
+      this.pinch.scale = distance / this.pinch.startDistance;
+      this.emitPinch({ phase: "move", scale: this.pinch.scale, center });
+    }
+  }
 
-    let staveResult = getClosest(
-      (closestSystemMeasure as any).parts.map((p: any) => p.stave as VF.Flow.Stave),
-      (stave: VF.Flow.Stave) => Math.abs(pt.y - getStaveCenterY(stave)));
+  /**
+   * Compares an event to the previous event and emits the relevant change events.
+   * @param event The new event or undefined if the mouse left the container.
+   */
+  private update(event: ScoreMouseEvent | undefined) {
+    let previous = this.lastEvent;
+    this.lastEvent = event;
 
-    ({ item: closestStave, idx: closestStaveIdx } =
-      (staveResult) ? staveResult : { item: undefined, idx: undefined });
+    let prevTickable = previous?.closestTickable?.tickable;
+    let tickable = event?.closestTickable?.tickable;
+    if (prevTickable !== tickable) {
+      if (previous && prevTickable) {
+        this.emit("tickableleave", event || previous, previous);
+      }
 
-    if (closestStave && closestStaveIdx !== undefined) {
-      centerLineOffset = getCenterLineOffset(closestStave, pt);
+      if (event && tickable) {
+        this.emit("tickableenter", event, previous);
+      }
+    }
 
-      if ((closestSystemMeasure as any)?.parts?.length > closestStaveIdx) {
-        let voices: VF.Flow.Voice[] = (closestSystemMeasure as any).parts[closestStaveIdx].voices;
-        ({ closestTickable, closestTickableBefore } = getClosestTickableResult(voices, pt));
+    if (!event) {
+      return;
+    }
 
-        if (noteMap && closestTickableBefore && centerLineOffset !== undefined) {
-          let pitchTick = closestTickableBefore.tickable as any;
+    if (event.measureIdx !== previous?.measureIdx) {
+      this.emit("measurechange", event, previous);
+    }
 
-          accidentals = fetchAccidentals ?
-            getAccidentals(systems, closestStaveIdx, measureIdx, closestTickableBefore.beat) :
-            undefined;
+    if (event.closestStave !== previous?.closestStave) {
+      this.emit("stavechange", event, previous);
+    }
 
-          effectivePitch = getNoteAndOctave(noteMap, pitchTick.clef,
-            centerLineOffset, pitchTick.octave_shift, accidentals);
-        }
-      }
+    if (!isSamePitch(event.effectivePitch, previous?.effectivePitch)) {
+      this.emit("pitchchange", event, previous);
     }
   }
 
-  return {
-    accidentals,
-    measureIdx,
-    closestSystemMeasure,
-    closestStaveIdx,
-    closestStave,
-    closestTickable,
-    closestTickableBefore,
-    centerLineOffset,
-    effectivePitch,
-    mouseX: pt.x,
-    mouseY: pt.y
-  };
+  /**
+   * Calls the listeners of an event.
+   * @param type The event type.
+   * @param event The score mouse event.
+   * @param previous The previous score mouse event.
+   */
+  private emit(type: ScoreEventType, event: ScoreMouseEvent, previous: ScoreMouseEvent | undefined) {
+    for (let listener of this.listeners[type]) {
+      listener(event, previous);
+    }
+  }
+
+  /**
+   * Calls the pinch listeners.
+   * @param event The pinch event.
+   */
+  private emitPinch(event: PinchEvent) {
+    for (let listener of this.pinchListeners) {
+      listener(event);
+    }
+  }
 }